@@ -1,38 +1,54 @@
 #!/usr/bin/env tsx
 
-import { scrape } from './lib/scraper.js';
-import { getConfig } from './lib/config.js';
-import { exec } from 'node:child_process';
-import { mkdirSync, existsSync } from 'node:fs';
-import yargs from 'yargs';
+import { getSearchBackend, groupByRepository, RepositoryResult, SEARCH_BACKENDS, SearchBackendName } from './lib/search.js';
+import { Config, getConfig, setProfile } from './lib/config.js';
+import { cloneRepository, EXISTING_STRATEGIES, ExistingStrategy, getOriginUrl, parseBranchList, updateRepository } from './lib/clone.js';
+import { mkdirSync, existsSync, rmSync } from 'node:fs';
+import path from 'node:path';
+import yargs, { Argv } from 'yargs';
 import { hideBin } from 'yargs/helpers';
-import { initializeLogger, getLogger, getLogLevel, LogLevel } from './lib/logger.js';
+import { CLONE_PROTOCOLS, CloneProtocol, Flavor, FLAVORS, getRepositoryDirectory, isSameRepository, Layout, LAYOUTS } from './lib/repository.js';
+import { CloneRecord, CloneSummary, formatOperationSummary, formatPublishSummary, formatRepositories, formatStatus, formatSummary, OUTPUT_FORMATS, OutputFormat, QuerySummary, RepositoryRecord, summarizeOperation, summarizePublish, writeOutput } from './lib/output.js';
+import { createManifest, getEntryPath, getRemainingEntries, MANIFEST_FILE, ManifestEntry, readManifest, recordCloneResult, RunManifest, writeManifest } from './lib/manifest.js';
+import { createQuery, getRepositoryQuery, loadQueries, QueryDefaults, SearchQuery, validateQueries } from './lib/queries.js';
+import { buildSearchQuery, filterResults, SearchFilters } from './lib/filters.js';
+import { CONFIG_FILE_NAMES, findConfigFile, loadProfile, Profile } from './lib/profiles.js';
+import { runPool } from './lib/pool.js';
+import { RetryOptions, withRetry } from './lib/retry.js';
+import { publishRepository, PublishRecord } from './lib/publish.js';
+import { getDirectoryClones, getManifestClones, getRepositoryStatus, LocalClone, matchesStatus, RepositoryStatus, STATUS_FILTERS, StatusFilter } from './lib/local.js';
+import { checkoutBranch, OperationRecord, runCommands } from './lib/bulk.js';
+import { INDEX_FILE, readIndex, searchIndex, updateIndex, writeIndex } from './lib/indexer.js';
+import { createHookSteps, hooksFailed, runHooks } from './lib/hooks.js';
+import { classifyError } from './lib/errors.js';
+import { clearSession } from './lib/session.js';
+import { ProgressReporter } from './lib/progress.js';
+import { initializeLogger, getLogger, getLogLevel, Logger, LogLevel } from './lib/logger.js';
 
-async function main() {
-  const argv = await yargs(hideBin(process.argv))
-    .usage('$0 [options]')
+// Options shared by every command
+function withGlobalOptions<T>(argv: Argv<T>) {
+  return argv
     .option('url', {
       alias: 'u',
       type: 'string',
-      description: 'Bitbucket URL to search',
-      default: 'https://bitbucket.org'
+      description: 'Bitbucket URL to search (default: https://bitbucket.org)',
+      default: undefined
     })
-    .option('search', {
-      alias: 's',
+    .option('profile', {
+      alias: 'P',
       type: 'string',
-      description: 'Search term (file name to search for)',
-      demandOption: true
+      description: 'Profile of the config file to use (url, credentials, clone path, branch, concurrency and filters)',
+      default: undefined
     })
-    .option('clone-path', {
-      alias: 'c',
+    .option('config', {
       type: 'string',
-      description: 'Directory to clone repositories to',
+      description: `Config file with profiles (default: the nearest ${CONFIG_FILE_NAMES[1]} or .json, or one in ~/.config)`,
       default: undefined
     })
-    .option('branch', {
-      alias: 'b',
+    .option('clone-path', {
+      alias: 'c',
       type: 'string',
-      description: 'Branch to clone from (falls back to default if not found)',
+      description: 'Directory to clone repositories to',
       default: undefined
     })
     .option('dry-run', {
@@ -47,20 +63,486 @@ async function main() {
       description: 'Increase verbosity (use multiple times: -v, -vv, -vvv)',
       default: 0
     })
+    .option('concurrency', {
+      alias: 'j',
+      type: 'number',
+      description: 'Number of repositories to clone in parallel (default: 1)',
+      default: undefined
+    })
+    .option('flavor', {
+      type: 'string',
+      choices: FLAVORS,
+      description: 'Bitbucket Cloud or self-hosted Data Center / Server (detected from --url by default)',
+      default: undefined
+    })
+    .option('output', {
+      alias: 'o',
+      type: 'string',
+      choices: OUTPUT_FORMATS,
+      description: 'Print the results (dry run) or the clone summary in this format',
+      default: undefined
+    })
+    .option('output-file', {
+      type: 'string',
+      description: 'Write the formatted output to a file instead of stdout (defaults to json)',
+      default: undefined
+    })
+    .option('git-timeout', {
+      type: 'number',
+      description: 'Seconds allowed for each git command (0 for no limit)',
+      default: 600
+    })
+    .option('retries', {
+      type: 'number',
+      description: 'Retries of transient failures (timeouts, network and server errors)',
+      default: 2
+    })
+    .option('retry-delay', {
+      type: 'number',
+      description: 'Seconds before the first retry, doubled for each further retry',
+      default: 1
+    });
+}
+
+// Searching: the queries, filters and search backend
+function withSearchOptions<T>(argv: Argv<T>) {
+  return withFilterOptions(argv
+    .option('search', {
+      alias: 's',
+      type: 'string',
+      array: true,
+      description: 'Search term (file name to search for, repeatable)'
+    })
+    .option('queries', {
+      type: 'string',
+      description: 'YAML file of queries, each with its own search term, filters, branch and clone path',
+      default: undefined
+    })
+    .option('branch', {
+      alias: 'b',
+      type: 'string',
+      description: 'Branch to clone, or a comma-separated list tried in order (falls back to default if none found)',
+      default: undefined
+    })
     .option('max-results', {
       alias: 'm',
       type: 'number',
       description: 'Maximum number of repositories to clone',
       default: undefined
     })
+    .option('layout', {
+      type: 'string',
+      choices: LAYOUTS,
+      description: 'Directory layout: <repo> (flat), <workspace>/<repo> or <project>/<repo>',
+      default: 'flat'
+    })
+    .option('timeout', {
+      type: 'number',
+      description: 'Seconds to wait for pages and elements when scraping, or for each API request',
+      default: 30
+    })
+    .option('debug', {
+      type: 'boolean',
+      description: 'Save a screenshot and the HTML of the page (in the log directory) when a wait times out',
+      default: false
+    })
+    .option('backend', {
+      type: 'string',
+      choices: SEARCH_BACKENDS,
+      description: 'Search backend: drive the web UI (browser) or call the REST API (api)',
+      default: 'browser'
+    })
+    .option('protocol', {
+      type: 'string',
+      choices: CLONE_PROTOCOLS,
+      description: 'Protocol of the clone URLs',
+      default: 'https'
+    })
+    .option('clone-links', {
+      type: 'boolean',
+      description: 'Look up clone URLs from repository metadata (links.clone) via the REST API',
+      default: false
+    })
+    .option('session-file', {
+      type: 'string',
+      description: 'File the browser session is saved to and reused from',
+      default: undefined
+    })
+    .option('logout', {
+      type: 'boolean',
+      description: 'Delete the saved browser session (then search, if --search is given)',
+      default: false
+    })
+    .option('workspace', {
+      alias: 'w',
+      type: 'string',
+      description: 'Bitbucket Cloud workspace to search (api backend)',
+      default: undefined
+    }));
+}
+
+// Narrowing down the results, of the remote search and of the local index
+function withFilterOptions<T>(argv: Argv<T>) {
+  return argv
+    .option('repo', {
+      type: 'string',
+      array: true,
+      description: 'Only search these repositories (<repo> or <workspace>/<repo>, repeatable)'
+    })
+    .option('project', {
+      type: 'string',
+      array: true,
+      description: 'Only search these project keys (repeatable)'
+    })
+    .option('lang', {
+      type: 'string',
+      array: true,
+      description: 'Only match files in these languages, e.g. javascript (repeatable)'
+    })
+    .option('ext', {
+      type: 'string',
+      array: true,
+      description: 'Only match files with these extensions (repeatable)'
+    })
+    .option('path', {
+      type: 'string',
+      array: true,
+      description: 'Only match files below these directories or matching these globs (repeatable)'
+    })
+    .option('exclude-repo', {
+      type: 'string',
+      array: true,
+      description: 'Skip repositories matching these globs, e.g. "legacy-*" (repeatable)'
+    })
+    .option('include-archived', {
+      type: 'boolean',
+      description: 'Keep results from archived repositories (--no-include-archived overrides the profile)',
+      default: undefined
+    });
+}
+
+// Commands run in each repository after cloning or updating it
+function withExecOptions<T>(argv: Argv<T>) {
+  return argv
+    .option('exec', {
+      type: 'string',
+      array: true,
+      description: 'Command to run inside each cloned or updated repository (repeatable, runs in order)'
+    })
+    .option('exec-timeout', {
+      type: 'number',
+      description: 'Seconds allowed for each --exec command (0 for no limit)',
+      default: 0
+    });
+}
+
+// Cloning the search results
+function withCloneOptions<T>(argv: Argv<T>) {
+  return withExecOptions(argv)
+    .option('depth', {
+      type: 'number',
+      description: 'Shallow clone with this many commits of history',
+      default: undefined
+    })
+    .option('filter', {
+      type: 'string',
+      description: 'Partial clone filter passed to git, e.g. blob:none',
+      default: undefined
+    })
+    .option('sparse', {
+      type: 'boolean',
+      description: 'Only check out the directories containing the matched files',
+      default: false
+    })
+    .option('on-existing', {
+      type: 'string',
+      choices: EXISTING_STRATEGIES,
+      description: 'What to do with repositories that are already cloned',
+      default: 'skip'
+    })
+    .option('force', {
+      type: 'boolean',
+      description: 'Update existing clones even when they have local changes',
+      default: false
+    })
+    .option('retry-failed', {
+      type: 'boolean',
+      description: 'Only retry the failed repositories of the run manifest (default: the last run in --clone-path)',
+      default: false
+    });
+}
+
+// Searching and cloning in one go, the default command
+function withSearchAndCloneOptions<T>(argv: Argv<T>) {
+  return withCloneOptions(withSearchOptions(argv))
+    .option('resume', {
+      type: 'string',
+      description: 'Clone the pending and failed repositories of a run manifest without searching again',
+      default: undefined
+    })
+    .check(argv => {
+      if (!argv.search?.length && !argv.queries && !argv.resume && !argv.retryFailed && !argv.logout) {
+        throw new Error('Missing required argument: search');
+      }
+      return true;
+    });
+}
+
+// Searching without cloning; the results are saved to a run manifest
+function withSearchCommandOptions<T>(argv: Argv<T>) {
+  return withSearchOptions(argv)
+    .option('manifest', {
+      type: 'string',
+      description: `Run manifest to save the results to (default: ${MANIFEST_FILE} in --clone-path)`,
+      default: undefined
+    })
+    .check(argv => {
+      if (!argv.search?.length && !argv.queries && !argv.logout) {
+        throw new Error('Missing required argument: search');
+      }
+      return true;
+    });
+}
+
+// Cloning the repositories of a saved run manifest
+function withCloneCommandOptions<T>(argv: Argv<T>) {
+  return withCloneOptions(argv)
+    .positional('manifest', {
+      type: 'string',
+      description: `Run manifest written by search (default: ${MANIFEST_FILE} in --clone-path)`
+    });
+}
+
+// Updating the clones that are already on disk
+function withSyncOptions<T>(argv: Argv<T>) {
+  return withExecOptions(argv)
+    .option('branch', {
+      alias: 'b',
+      type: 'string',
+      description: 'Branch to check out, or a comma-separated list tried in order (default: the branch of the search, or origin\'s default branch)',
+      default: undefined
+    })
+    .option('strategy', {
+      type: 'string',
+      choices: EXISTING_STRATEGIES.filter(strategy => strategy !== 'skip'),
+      description: 'How to update each clone',
+      default: 'pull'
+    })
+    .option('depth', {
+      type: 'number',
+      description: 'Keep shallow clones at this many commits of history',
+      default: undefined
+    })
+    .option('force', {
+      type: 'boolean',
+      description: 'Update clones even when they have local changes',
+      default: false
+    })
+    .option('manifest', {
+      type: 'string',
+      description: 'Only sync the repositories of this run manifest (default: every clone in --clone-path)',
+      default: undefined
+    });
+}
+
+// Choosing the clones that status, foreach and checkout work on
+function withSelectOptions<T>(argv: Argv<T>) {
+  return argv
+    .option('manifest', {
+      type: 'string',
+      description: 'Only the repositories of this run manifest (default: every clone in --clone-path)',
+      default: undefined
+    })
+    .option('only', {
+      type: 'string',
+      array: true,
+      choices: STATUS_FILTERS,
+      description: 'Only repositories whose status matches, e.g. --only dirty --only ahead (repeatable, all must match)'
+    });
+}
+
+// Reporting the state of the clones
+function withStatusOptions<T>(argv: Argv<T>) {
+  return withSelectOptions(argv)
+    .option('fetch', {
+      type: 'boolean',
+      description: 'Fetch from origin first so ahead/behind is current',
+      default: false
+    });
+}
+
+// Running commands in every clone
+function withForeachOptions<T>(argv: Argv<T>) {
+  return withSelectOptions(argv)
+    .positional('commands', {
+      type: 'string',
+      array: true,
+      description: 'Shell commands run in order inside each clone, with the same REPO_* variables as --exec',
+      demandOption: true
+    })
+    .option('timeout', {
+      type: 'number',
+      description: 'Seconds allowed for each command (0 for no limit)',
+      default: 0
+    });
+}
+
+// Switching every clone to a branch
+function withCheckoutOptions<T>(argv: Argv<T>) {
+  return withSelectOptions(argv)
+    .positional('branch', {
+      type: 'string',
+      description: 'Branch to check out; one that only exists on origin becomes a tracking branch',
+      demandOption: true
+    })
+    .option('create', {
+      type: 'boolean',
+      description: 'Create the branch where neither the clone nor origin has it',
+      default: false
+    })
+    .option('fetch', {
+      type: 'boolean',
+      description: 'Fetch from origin first to find recently pushed branches',
+      default: false
+    })
+    .option('force', {
+      type: 'boolean',
+      description: 'Switch branches even in clones with local changes',
+      default: false
+    });
+}
+
+// Indexing the clones for grep
+function withIndexOptions<T>(argv: Argv<T>) {
+  return argv
+    .option('rebuild', {
+      type: 'boolean',
+      description: 'Index every repository again, not only those whose commit changed',
+      default: false
+    });
+}
+
+// Searching the local index
+function withGrepOptions<T>(argv: Argv<T>) {
+  return withFilterOptions(argv)
+    .positional('terms', {
+      type: 'string',
+      array: true,
+      description: 'Search terms; each one is a separate query, like repeated --search',
+      demandOption: true
+    })
+    .option('regex', {
+      alias: 'E',
+      type: 'boolean',
+      description: 'Match the terms as regular expressions against file paths and lines (reads every indexed file)',
+      default: false
+    })
+    .option('max-results', {
+      alias: 'm',
+      type: 'number',
+      description: 'Maximum number of repositories to list',
+      default: undefined
+    });
+}
+
+// Publishing the changes made in the clones
+function withPublishOptions<T>(argv: Argv<T>) {
+  return argv
+    .option('branch', {
+      alias: 'b',
+      type: 'string',
+      description: 'Branch to commit the changes to in each repository',
+      demandOption: true
+    })
+    .option('message', {
+      type: 'string',
+      description: 'Commit message; {repo}, {workspace}, {branch} and {target} are replaced',
+      demandOption: true
+    })
+    .option('title', {
+      type: 'string',
+      description: 'Pull request title, with the same placeholders (default: first line of the message)',
+      default: undefined
+    })
+    .option('description', {
+      type: 'string',
+      description: 'Pull request description, with the same placeholders (default: rest of the message)',
+      default: undefined
+    })
+    .option('target-branch', {
+      type: 'string',
+      description: 'Branch the pull requests merge into (default: the branch each clone is on)',
+      default: undefined
+    })
+    .option('pull-request', {
+      type: 'boolean',
+      description: 'Open a pull request after pushing (--no-pull-request only pushes)',
+      default: true
+    })
+    .option('manifest', {
+      type: 'string',
+      description: 'Only publish the repositories of this run manifest (default: every clone in --clone-path)',
+      default: undefined
+    });
+}
 
+type GlobalArguments = Awaited<ReturnType<typeof withGlobalOptions<{}>>['argv']>;
+type SearchArguments = Awaited<ReturnType<typeof withSearchOptions<GlobalArguments>>['argv']>;
+type FilterArguments = Awaited<ReturnType<typeof withFilterOptions<GlobalArguments>>['argv']>;
+type CloneArguments = Awaited<ReturnType<typeof withCloneOptions<GlobalArguments>>['argv']>;
+type SearchAndCloneArguments = Awaited<ReturnType<typeof withSearchAndCloneOptions<GlobalArguments>>['argv']>;
+type SearchCommandArguments = Awaited<ReturnType<typeof withSearchCommandOptions<GlobalArguments>>['argv']>;
+type CloneCommandArguments = Awaited<ReturnType<typeof withCloneCommandOptions<GlobalArguments>>['argv']>;
+type SyncArguments = Awaited<ReturnType<typeof withSyncOptions<GlobalArguments>>['argv']>;
+type SelectArguments = Awaited<ReturnType<typeof withSelectOptions<GlobalArguments>>['argv']>;
+type StatusArguments = Awaited<ReturnType<typeof withStatusOptions<GlobalArguments>>['argv']>;
+type ForeachArguments = Awaited<ReturnType<typeof withForeachOptions<GlobalArguments>>['argv']>;
+type CheckoutArguments = Awaited<ReturnType<typeof withCheckoutOptions<GlobalArguments>>['argv']>;
+type IndexArguments = Awaited<ReturnType<typeof withIndexOptions<GlobalArguments>>['argv']>;
+type GrepArguments = Awaited<ReturnType<typeof withGrepOptions<GlobalArguments>>['argv']>;
+type PublishArguments = Awaited<ReturnType<typeof withPublishOptions<GlobalArguments>>['argv']>;
 
+async function main() {
+  await withGlobalOptions(yargs(hideBin(process.argv)))
+    .usage('$0 [command] [options]')
+    .command('search', 'Search Bitbucket and save the matching repositories to a run manifest', argv => withSearchCommandOptions(argv), argv => search(argv))
+    .command('clone [manifest]', 'Clone the pending and failed repositories of a run manifest', argv => withCloneCommandOptions(argv), argv => clone(argv))
+    .command('sync', 'Update the clones in --clone-path from origin', argv => withSyncOptions(argv), argv => sync(argv))
+    .command('status', 'Show the branch, local changes, ahead/behind and last commit of each clone', argv => withStatusOptions(argv), argv => status(argv))
+    .command('foreach <commands..>', 'Run shell commands in each clone', argv => withForeachOptions(argv), argv => foreach(argv))
+    .command('checkout <branch>', 'Check out a branch in each clone', argv => withCheckoutOptions(argv), argv => checkout(argv))
+    .command('index', `Build or update the search index of the clones (${INDEX_FILE} in --clone-path)`, argv => withIndexOptions(argv), argv => index(argv))
+    .command('grep <terms..>', 'Search the clones through the local index, listing results like search', argv => withGrepOptions(argv), argv => grep(argv))
+    .command('publish', 'Commit the changes in each clone to a branch, push it and open a pull request', argv => withPublishOptions(argv), argv => publish(argv))
+    .command('$0', 'Search Bitbucket and clone the matching repositories', argv => withSearchAndCloneOptions(argv), argv => searchAndClone(argv))
     .help()
     .alias('help', 'h')
     .version()
     .alias('version', 'V')
-    .argv;
+    // Errors thrown by a command are reported by main().catch; only usage errors print the help
+    .fail((message, error, cli) => {
+      if (!message) {
+        throw error;
+      }
+      cli.showHelp();
+      console.error(`\n${message}`);
+      process.exit(1);
+    })
+    .parseAsync();
+}
 
+// What every command starts from: the profile, the configuration and the logger
+interface CommandContext {
+  config: Config;
+  profile: Profile | null;
+  logger: Logger;
+  url: string;
+  concurrency: number;
+  outputFormat: OutputFormat | undefined;
+  outputToStdout: boolean;
+}
+
+function setup(argv: GlobalArguments): CommandContext {
   // Determine log level based on verbose count
   let effectiveLogLevel = 'info';
   if (argv.verbose > 0) {
@@ -69,12 +551,32 @@ async function main() {
     effectiveLogLevel = verboseLevels[verboseIndex] || 'info';
   }
 
+  // Precedence: command line, then environment variables, then the profile, then the defaults
+  const configFile = argv.config || findConfigFile();
+  if (argv.config && !existsSync(argv.config)) {
+    throw new Error(`Config file not found: ${argv.config}`);
+  }
+  if (argv.profile && !configFile) {
+    throw new Error(`No config file found for profile "${argv.profile}" (looked for ${CONFIG_FILE_NAMES.join(', ')})`);
+  }
+  const profile = configFile ? loadProfile(configFile, argv.profile) : null;
+  setProfile(profile);
+
   const config = getConfig();
 
   // Override clone path if specified via command line
   if (argv.clonePath) {
     config.clonePath = argv.clonePath;
   }
+  if (argv.flavor) {
+    config.flavor = argv.flavor as Flavor;
+  }
+  const url = argv.url || config.url;
+  const concurrency = Math.max(1, argv.concurrency ?? profile?.concurrency ?? 1);
+
+  const outputFormat = (argv.output || (argv.outputFile ? 'json' : undefined)) as OutputFormat | undefined;
+  // Structured output written to stdout must not be mixed with log lines
+  const outputToStdout = outputFormat !== undefined && !argv.outputFile;
 
   // Initialize logger
   const logLevel = getLogLevel(effectiveLogLevel);
@@ -83,17 +585,24 @@ async function main() {
     logToFile: true,
     logDir: config.logDir || undefined,
     logFile: config.logFile || undefined,
-    consoleOutput: true
+    consoleOutput: true,
+    consoleStderr: outputToStdout
   });
 
-  // Log configuration
   logger.logConfiguration({
+    command: argv._[0] || 'search and clone',
     clonePath: config.clonePath,
-    searchUrl: argv.url,
-    searchTerm: argv.search,
-    branch: argv.branch || 'default',
+    configFile,
+    profile: profile?.name,
+    url,
     dryRun: argv.dryRun,
-    maxResults: argv.maxResults,
+    concurrency,
+    flavor: config.flavor || 'auto',
+    gitTimeout: argv.gitTimeout,
+    retries: argv.retries,
+    retryDelay: argv.retryDelay,
+    output: outputFormat,
+    outputFile: argv.outputFile,
     verboseCount: argv.verbose,
     effectiveLogLevel,
     logToFile: true,
@@ -102,72 +611,651 @@ async function main() {
     noConsole: false
   });
 
-  // Log search start
-  logger.search(argv.search, argv.url);
+  return { config, profile, logger, url, concurrency, outputFormat, outputToStdout };
+}
+
+async function searchAndClone(argv: SearchAndCloneArguments) {
+  const context = setup(argv);
+  const { config, url } = context;
+  prepareSession(argv, context);
+
+  // --retry-failed on its own picks up the manifest of the last run in the clone path
+  const resumeFile = argv.resume || (argv.retryFailed ? path.join(config.clonePath, MANIFEST_FILE) : undefined);
+  if (resumeFile) {
+    // Resumed runs clone the manifest's result set with its queries and layout instead of searching again
+    await cloneRemaining(resumeFile, argv, context);
+    return;
+  }
+  if (!argv.search?.length && !argv.queries) {
+    return;
+  }
+
+  const results = await searchRepositories(argv, context);
+  if (!results) {
+    return;
+  }
+  if (argv.dryRun) {
+    printSearchResults(results, argv, context);
+    return;
+  }
+
+  const manifest = createManifest(url, results.layout, results.queries, results.repositories);
+  const manifestFile = path.join(config.clonePath, MANIFEST_FILE);
+  writeManifest(manifest, manifestFile);
+  await cloneEntries(manifest, manifestFile, manifest.repositories, argv, context);
+}
+
+async function search(argv: SearchCommandArguments) {
+  const context = setup(argv);
+  const { config, logger, url } = context;
+  prepareSession(argv, context);
+  if (!argv.search?.length && !argv.queries) {
+    return;
+  }
+
+  const results = await searchRepositories(argv, context);
+  if (!results) {
+    return;
+  }
+  printSearchResults(results, argv, context);
+  if (argv.dryRun) {
+    return;
+  }
+
+  const manifestFile = argv.manifest || path.join(config.clonePath, MANIFEST_FILE);
+  writeManifest(createManifest(url, results.layout, results.queries, results.repositories), manifestFile);
+  logger.info(`📋 Run manifest saved to: ${manifestFile}`);
+  logger.info(`📥 Clone the repositories with: clone ${manifestFile}`);
+}
+
+async function clone(argv: CloneCommandArguments) {
+  const context = setup(argv);
+  await cloneRemaining(argv.manifest || path.join(context.config.clonePath, MANIFEST_FILE), argv, context);
+}
+
+async function sync(argv: SyncArguments) {
+  const { config, profile, logger, concurrency, outputFormat, outputToStdout } = setup(argv);
+  const branches = argv.branch ? parseBranchList(argv.branch) : (profile?.branches || []);
+  const hookSteps = argv.exec ? createHookSteps(argv.exec) : (profile?.hooks || []);
+  const strategy = argv.strategy as Exclude<ExistingStrategy, 'skip'>;
+
+  const manifest = argv.manifest ? readManifest(argv.manifest) : null;
+  const clones = manifest ? getManifestClones(manifest) : await getDirectoryClones(config.clonePath);
+  logger.debug('Syncing', { manifest: argv.manifest, clonePath: config.clonePath, strategy, branch: branches.join(',') || 'default', clones: clones.length });
+  if (clones.length === 0) {
+    logger.warn(`❌ No clones found in ${argv.manifest || config.clonePath}`);
+    return;
+  }
+
+  if (argv.dryRun) {
+    logger.info(`🔍 DRY RUN - Would ${strategy} the following repositories:`);
+    clones.forEach((clone, index) => logger.info(`${index + 1}. ${clone.repoName} (${clone.localPath})`));
+    return;
+  }
+
+  const abortController = new AbortController();
+  const onInterrupt = () => {
+    logger.warn('🛑 Interrupted, cancelling running git commands...');
+    abortController.abort();
+  };
+  process.once('SIGINT', onInterrupt);
+
+  const cloneRecords = await runPool(clones, concurrency, async (clone): Promise<CloneRecord> => {
+    const repoLogger = concurrency > 1 ? logger.buffered() : logger;
+    // Clones of a manifest keep the branch and files of their search
+    const query = manifest && clone.entry ? getRepositoryQuery(manifest.queries, clone.entry.repository) : null;
+    const record: RepositoryRecord = manifest && clone.entry && query
+      ? toRepositoryRecord(clone.entry.repository, query, manifest.layout)
+      : {
+        repoName: clone.repoName,
+        workspace: clone.workspace,
+        project: null,
+        cloneUrl: clone.cloneUrl,
+        branch: branches.length ? branches.join(',') : null,
+        existsLocally: true,
+        localPath: clone.localPath,
+        files: [],
+        queries: []
+      };
 
-  const results = await scrape(argv.url, argv.search, logger);
+    let cloneRecord: CloneRecord;
+    try {
+      const update = await withRetry(`Updating ${clone.repoName}`, () => updateRepository(clone.cloneUrl, clone.repoName, clone.localPath, {
+        branches: argv.branch || !query ? branches : query.branches,
+        depth: argv.depth,
+        timeout: argv.gitTimeout * 1000,
+        signal: abortController.signal,
+        strategy,
+        force: argv.force
+      }, repoLogger), { retries: argv.retries, delay: argv.retryDelay * 1000, signal: abortController.signal }, repoLogger);
+      cloneRecord = update.outcome === 'dirty'
+        ? { ...record, status: 'skipped', checkedOutBranch: update.branch, error: 'Working tree has local changes', errorClass: null, hooks: [] }
+        : { ...record, status: update.outcome, checkedOutBranch: update.branch, error: null, errorClass: null, hooks: [] };
+    } catch (error) {
+      const classified = classifyError(error);
+      repoLogger.cloneError(clone.repoName, classified.message, classified.errorClass);
+      cloneRecord = { ...record, status: 'failed', checkedOutBranch: null, error: classified.message, errorClass: classified.errorClass, hooks: [] };
+    }
 
-  logger.debug(`Found ${results.length} repositories`);
+    if (hookSteps.length && ['updated', 'current'].includes(cloneRecord.status)) {
+      cloneRecord.hooks = await runHooks(hookSteps, {
+        repoName: clone.repoName,
+        workspace: clone.workspace,
+        cloneUrl: clone.cloneUrl,
+        branch: cloneRecord.checkedOutBranch,
+        localPath: clone.localPath,
+        files: record.files
+      }, { timeout: argv.execTimeout * 1000, signal: abortController.signal }, repoLogger);
+    }
+
+    if (manifest && argv.manifest && clone.entry) {
+      recordCloneResult(clone.entry, cloneRecord);
+      writeManifest(manifest, argv.manifest);
+    }
+    repoLogger.flush();
+    return cloneRecord;
+  });
+  process.removeListener('SIGINT', onInterrupt);
 
-  if (results.length === 0) {
+  const clonePaths = manifest ? [...new Set(manifest.queries.map(query => query.clonePath))] : [config.clonePath];
+  const summary = summarizeClones(cloneRecords, clonePaths, []);
+  if (outputFormat) {
+    writeOutput(formatSummary(summary, outputFormat), argv.outputFile);
+    if (outputToStdout) {
+      return;
+    }
+  }
+
+  console.log(`\n🎉 Sync complete!`);
+  console.log(`🔄 Updated: ${summary.updated} repository(ies), ${summary.current} already up to date`);
+  if (summary.skipped > 0) {
+    console.log(`✋ Skipped: ${summary.skipped} repository(ies) with local changes (--force updates them anyway)`);
+  }
+  printFailures(summary, 'Failed to update');
+  if (hookSteps.length) {
+    printFailedHooks(summary);
+  }
+}
+
+async function status(argv: StatusArguments) {
+  const context = setup(argv);
+  const selected = await selectClones(argv, context, argv.fetch);
+  if (selected) {
+    writeOutput(formatStatus(selected.map(({ status }) => status), context.outputFormat || 'table'), argv.outputFile);
+  }
+}
+
+async function foreach(argv: ForeachArguments) {
+  const context = setup(argv);
+  const steps = createHookSteps(argv.commands);
+  await runOperation(`foreach ${argv.commands.join(' && ')}`, argv, context, ({ clone, status }, options, logger) =>
+    runCommands(clone, status, steps, { timeout: argv.timeout * 1000, signal: options.signal }, logger)
+  );
+}
+
+async function checkout(argv: CheckoutArguments) {
+  const context = setup(argv);
+  await runOperation(`checkout ${argv.branch}`, argv, context, ({ clone, status }, options, logger) =>
+    checkoutBranch(clone, status, argv.branch, { ...options, create: argv.create, fetch: argv.fetch, force: argv.force }, logger)
+  );
+}
+
+async function index(argv: IndexArguments) {
+  const { config, logger, concurrency } = setup(argv);
+  const indexFile = path.join(config.clonePath, INDEX_FILE);
+
+  const clones = await getDirectoryClones(config.clonePath);
+  if (clones.length === 0) {
+    logger.warn(`❌ No clones found in ${config.clonePath}`);
+    return;
+  }
+  const previous = argv.rebuild ? null : readIndex(indexFile);
+  logger.debug('Indexing', { indexFile, clones: clones.length, rebuild: argv.rebuild, indexed: previous?.repositories.length ?? 0 });
+
+  const update = await updateIndex(previous, clones, { concurrency, rebuild: argv.rebuild, timeout: argv.gitTimeout * 1000 }, logger);
+  writeIndex(update.index, indexFile);
+
+  console.log(`\n📚 Indexed: ${update.indexed.length} repository(ies), ${update.unchanged} unchanged, ${update.removed} removed`);
+  console.log(`📄 Files in the index: ${update.index.repositories.reduce((count, repository) => count + repository.files.length, 0)}`);
+  if (update.failed.length) {
+    console.log(`❌ Failed to index: ${update.failed.join(', ')}`);
+  }
+  console.log(`📋 Index saved to: ${indexFile}`);
+}
+
+async function grep(argv: GrepArguments) {
+  const context = setup(argv);
+  const { config, profile, logger, outputFormat } = context;
+  const indexFile = path.join(config.clonePath, INDEX_FILE);
+  const localIndex = readIndex(indexFile);
+  if (!localIndex) {
+    throw new Error(`No search index in ${config.clonePath}, build it with the index command first`);
+  }
+
+  const filters = getFilters(argv, profile);
+  const queries = argv.terms.map(term => createQuery(term, { filters, branches: [], clonePath: config.clonePath }));
+  validateQueries(queries);
+  const results = queries.flatMap(query => {
+    logger.debug(`Searching the index for ${query.search}`, { indexFile, regex: argv.regex });
+    return filterResults(searchIndex(localIndex, query.search, { regex: argv.regex, query: query.name }), query.filters, logger);
+  });
+
+  const repositories = groupByRepository(results);
+  logger.debug(`Found ${results.length} matching file(s) in ${repositories.length} repositories`);
+  if (repositories.length === 0) {
     logger.noResults();
+    if (outputFormat) {
+      writeOutput(formatRepositories([], outputFormat), argv.outputFile);
+    }
     return;
   }
 
+  const foundRepositories = argv.maxResults ? repositories.slice(0, argv.maxResults) : repositories;
+  const localPaths = new Map(localIndex.repositories.map(repository => [repository.cloneUrl, repository.localPath]));
+  printSearchResults({ queries, repositories: foundRepositories, layout: 'flat', localPaths }, argv, context);
+}
+
+async function publish(argv: PublishArguments) {
+  const { config, logger, url, concurrency, outputFormat, outputToStdout } = setup(argv);
+
+  const manifest = argv.manifest ? readManifest(argv.manifest) : null;
+  const targets = manifest ? getManifestClones(manifest) : await getDirectoryClones(config.clonePath);
+  logger.debug('Publishing', { manifest: argv.manifest, clonePath: config.clonePath, branch: argv.branch, targets: targets.length, dryRun: argv.dryRun });
+  if (targets.length === 0) {
+    logger.warn(`❌ No clones found in ${argv.manifest || config.clonePath}`);
+    return;
+  }
+
+  const abortController = new AbortController();
+  const onInterrupt = () => {
+    logger.warn('🛑 Interrupted, cancelling running git commands...');
+    abortController.abort();
+  };
+  process.once('SIGINT', onInterrupt);
+
+  const records = await runPool(targets, concurrency, async (target): Promise<PublishRecord> => {
+    const repoLogger = concurrency > 1 ? logger.buffered() : logger;
+    const record = await publishRepository(target, {
+      branch: argv.branch,
+      message: argv.message,
+      title: argv.title,
+      description: argv.description,
+      targetBranch: argv.targetBranch,
+      pullRequest: argv.pullRequest,
+      dryRun: argv.dryRun,
+      url: manifest?.url || url,
+      flavor: config.flavor,
+      timeout: argv.gitTimeout * 1000,
+      signal: abortController.signal,
+      retry: { retries: argv.retries, delay: argv.retryDelay * 1000, signal: abortController.signal }
+    }, repoLogger);
+    repoLogger.flush();
+    return record;
+  });
+  process.removeListener('SIGINT', onInterrupt);
+
+  // Pull request URLs are kept with the run they belong to
+  if (manifest && argv.manifest && !argv.dryRun) {
+    for (const entry of manifest.repositories) {
+      const record = records.find(record => record.localPath === getEntryPath(manifest, entry));
+      if (record?.pullRequestUrl) {
+        entry.pullRequestUrl = record.pullRequestUrl;
+      }
+    }
+    writeManifest(manifest, argv.manifest);
+  }
+
+  const summary = summarizePublish(records);
+  if (outputFormat) {
+    writeOutput(formatPublishSummary(summary, outputFormat), argv.outputFile);
+    if (outputToStdout) {
+      return;
+    }
+  }
+
+  console.log(argv.dryRun ? `\n🔍 DRY RUN - Would publish ${summary.planned} repository(ies) to ${argv.branch}` : `\n🎉 Publishing complete!`);
+  for (const record of records.filter(record => record.status === 'planned')) {
+    console.log(`   ${record.repoName}: ${record.changedFiles.length} changed file(s) → ${record.targetBranch}`);
+  }
+  if (!argv.dryRun) {
+    console.log(`📬 Pull requests opened: ${summary.published}, pushed only: ${summary.pushed}`);
+    for (const record of records.filter(record => record.pullRequestUrl)) {
+      console.log(`   ${record.repoName}: ${record.pullRequestUrl}`);
+    }
+  }
+  console.log(`👌 Without changes: ${summary.unchanged} repository(ies)`);
+  if (summary.failed > 0) {
+    console.log(`❌ Failed to publish: ${summary.failed} repository(ies)`);
+    for (const record of records.filter(record => record.status === 'failed')) {
+      console.log(`   ${record.repoName} (${record.errorClass}): ${record.error}`);
+    }
+  }
+}
+
+// Repositories found by the searches of one run
+interface SearchResults {
+  queries: SearchQuery[];
+  repositories: RepositoryResult[];
+  layout: Layout;
+  localPaths?: Map<string, string> | undefined; // Clone URL → directory, for results of the local index
+}
+
+// --session-file and --logout apply before anything is searched
+function prepareSession(argv: SearchArguments, context: CommandContext): void {
+  if (argv.sessionFile) {
+    context.config.sessionFile = argv.sessionFile;
+  }
+  if (argv.logout) {
+    context.logger.sessionCleared(context.config.sessionFile, clearSession(context.config.sessionFile));
+  }
+}
+
+// Each filter given on the command line replaces the profile's
+function getFilters(argv: FilterArguments, profile: Profile | null): SearchFilters {
+  const profileFilters: SearchFilters = profile?.filters || {};
+  return {
+    repos: argv.repo ?? profileFilters.repos,
+    projects: argv.project ?? profileFilters.projects,
+    languages: argv.lang ?? profileFilters.languages,
+    extensions: argv.ext ?? profileFilters.extensions,
+    paths: argv.path ?? profileFilters.paths,
+    excludeRepos: argv.excludeRepo ?? profileFilters.excludeRepos,
+    includeArchived: argv.includeArchived ?? profileFilters.includeArchived
+  };
+}
+
+// Runs the --search terms and the queries file; returns null when nothing matched
+async function searchRepositories(argv: SearchArguments, context: CommandContext): Promise<SearchResults | null> {
+  const { config, profile, logger, url, outputFormat } = context;
+  const branches = argv.branch ? parseBranchList(argv.branch) : (profile?.branches || []);
+
+  const filters = getFilters(argv, profile);
+
+  logger.debug('Searching', {
+    searchTerms: argv.search,
+    queriesFile: argv.queries,
+    branch: branches.join(',') || 'default',
+    maxResults: argv.maxResults,
+    layout: argv.layout,
+    timeout: argv.timeout,
+    debug: argv.debug,
+    backend: argv.backend,
+    workspace: argv.workspace,
+    filters,
+    protocol: argv.protocol,
+    cloneLinks: argv.cloneLinks,
+    sessionFile: config.sessionFile
+  });
+
+  // Command line filters, branch and clone path are the defaults for entries of the queries file
+  const queryDefaults: QueryDefaults = { filters, branches, clonePath: config.clonePath };
+  const queries = [
+    ...(argv.search || []).map(search => createQuery(search, queryDefaults)),
+    ...(argv.queries ? loadQueries(argv.queries, queryDefaults) : [])
+  ];
+  validateQueries(queries);
+
+  // All searches share one backend session (and one browser login)
+  const backend = getSearchBackend(argv.backend as SearchBackendName);
+  const queryResults = await backend.search(url, queries.map(query => buildSearchQuery(query.search, query.filters)), logger, {
+    workspace: argv.workspace,
+    protocol: argv.protocol as CloneProtocol,
+    resolveCloneLinks: argv.cloneLinks,
+    sessionFile: config.sessionFile,
+    flavor: config.flavor,
+    retry: { retries: argv.retries, delay: argv.retryDelay * 1000 },
+    timeout: argv.timeout * 1000,
+    debugDir: argv.debug ? path.join(config.logDir || 'logs', 'debug') : undefined
+  });
+  const results = queries.flatMap((query, index) =>
+    filterResults(queryResults[index] || [], query.filters, logger).map(result => ({ ...result, query: query.name }))
+  );
+
+  const repositories = groupByRepository(results);
+
+  logger.debug(`Found ${results.length} matching file(s) in ${repositories.length} repositories`);
+
+  if (repositories.length === 0) {
+    logger.noResults();
+    if (outputFormat) {
+      writeOutput(formatRepositories([], outputFormat), argv.outputFile);
+    }
+    return null;
+  }
+
   // Limit results if max-results is specified
-  const repositoriesToClone = argv.maxResults
-    ? results.slice(0, argv.maxResults)
-    : results;
+  const foundRepositories = argv.maxResults
+    ? repositories.slice(0, argv.maxResults)
+    : repositories;
+
+  logger.foundRepositories(foundRepositories.length);
+  return { queries, repositories: foundRepositories, layout: argv.layout as Layout };
+}
 
-  logger.foundRepositories(repositoriesToClone.length);
+// Lists the repositories with their matched files, and writes them in the --output format
+function printSearchResults(results: SearchResults, argv: GlobalArguments, context: CommandContext): void {
+  const { logger, outputFormat } = context;
+  const { queries, repositories, layout, localPaths } = results;
 
+  if (outputFormat) {
+    const records = repositories.map(repository =>
+      toRepositoryRecord(repository, getRepositoryQuery(queries, repository), layout, localPaths?.get(repository.cloneUrl))
+    );
+    writeOutput(formatRepositories(records, outputFormat), argv.outputFile);
+  }
   if (argv.dryRun) {
-    logger.dryRun(repositoriesToClone);
+    logger.dryRun(repositories.map(repository => repository.cloneUrl));
     logger.info('🔍 DRY RUN - Would clone the following repositories:');
-    repositoriesToClone.forEach((result, index) => {
-      const repoName = result.split('/').pop();
-      const branchInfo = argv.branch ? ` (branch: ${argv.branch})` : '';
-      logger.info(`${index + 1}. ${repoName} (${result})${branchInfo}`);
-    });
+  } else {
+    logger.info('🔍 Found the following repositories:');
+  }
+  repositories.forEach((repository, index) => {
+    const { branches } = getRepositoryQuery(queries, repository);
+    const branchInfo = branches.length ? ` (branch: ${branches.join(', ')})` : '';
+    const queryInfo = queries.length > 1 ? ` [${repository.queries.join(', ')}]` : '';
+    logger.info(`${index + 1}. ${repository.repoSlug} (${repository.cloneUrl})${branchInfo}${queryInfo}`);
+    for (const match of repository.matches) {
+      logger.matchedFile(repository.repoSlug, match.filePath, match.lines, match.snippet);
+    }
+  });
+}
+
+// Clones the pending and failed repositories of a saved run, or only the failed ones with --retry-failed
+async function cloneRemaining(manifestFile: string, argv: CloneArguments, context: CommandContext): Promise<void> {
+  const { logger } = context;
+  const manifest = readManifest(manifestFile);
+  logger.info(`📋 Resuming run from ${manifestFile}`, { manifestFile, retryFailed: argv.retryFailed });
+
+  const entries = getRemainingEntries(manifest, argv.retryFailed);
+  if (entries.length === 0) {
+    logger.info(`✅ Nothing left to clone in ${manifestFile}`);
     return;
   }
+  logger.foundRepositories(entries.length);
 
-  // Ensure clone directory exists
-  if (!existsSync(config.clonePath)) {
-    logger.info(`📂 Creating clone directory: ${config.clonePath}`);
-    mkdirSync(config.clonePath, { recursive: true });
+  if (argv.dryRun) {
+    printSearchResults({ queries: manifest.queries, repositories: entries.map(entry => entry.repository), layout: manifest.layout }, argv, context);
+    return;
   }
+  await cloneEntries(manifest, manifestFile, entries, argv, context);
+}
+
+// Clones the manifest entries, recording each result in the manifest as it finishes
+async function cloneEntries(manifest: RunManifest, manifestFile: string, entries: ManifestEntry[], argv: CloneArguments, context: CommandContext): Promise<void> {
+  const { config, profile, logger, concurrency, outputFormat, outputToStdout } = context;
+  const hookSteps = argv.exec ? createHookSteps(argv.exec) : (profile?.hooks || []);
+  const { queries, layout } = manifest;
+  const getQuery = (repository: RepositoryResult): SearchQuery => getRepositoryQuery(queries, repository);
+  const querySummaries: QuerySummary[] = queries.map(query => ({
+    name: query.name,
+    search: query.search,
+    repositories: manifest.repositories.filter(entry => entry.repository.queries.includes(query.name)).length
+  }));
 
-  let successCount = 0;
-  let errorCount = 0;
+  const manifestEntries = new Map(entries.map(entry => [entry.repository, entry]));
+  const repositoriesToClone = entries.map(entry => entry.repository);
 
-  for (const [index, result] of repositoriesToClone.entries()) {
-    const repoName = result.split('/').pop()?.split('.')[0];
-    logger.cloningRepository(repoName!, index + 1, repositoriesToClone.length);
+  logger.debug('Cloning', {
+    manifestFile,
+    repositories: repositoriesToClone.length,
+    exec: hookSteps.map(step => step.run),
+    depth: argv.depth,
+    filter: argv.filter,
+    sparse: argv.sparse,
+    onExisting: argv.onExisting,
+    force: argv.force
+  });
 
-    if (existsSync(`${config.clonePath}/${repoName}`)) {
-      logger.repositoryExists(repoName!);
-      continue;
+  // Ensure clone directories exist
+  const clonePaths = [...new Set(repositoriesToClone.map(repository => getQuery(repository).clonePath))];
+  for (const clonePath of clonePaths) {
+    if (!existsSync(clonePath)) {
+      logger.info(`📂 Creating clone directory: ${clonePath}`);
+      mkdirSync(clonePath, { recursive: true });
     }
+  }
 
-    try {
-      await cloneRepository(result, repoName!, config.clonePath, argv.branch as string | undefined, logger);
-      successCount++;
-    } catch (error) {
-      logger.cloneError(repoName!, (error as Error).message);
-      errorCount++;
+  const onExisting = argv.onExisting as ExistingStrategy;
+  const gitTimeout = argv.gitTimeout * 1000;
+  const retryDelay = argv.retryDelay * 1000;
+
+  // Ctrl+C stops the running git commands instead of leaving half-written clones behind
+  const abortController = new AbortController();
+  const onInterrupt = () => {
+    logger.warn('🛑 Interrupted, cancelling running git commands...');
+    abortController.abort();
+  };
+  process.once('SIGINT', onInterrupt);
+  // When two results map to the same directory the first one is cloned and the rest are conflicts
+  const directoryOwners = new Map<string, RepositoryResult>();
+  for (const repository of repositoriesToClone) {
+    const directory = path.join(getQuery(repository).clonePath, getRepositoryDirectory(repository, layout));
+    if (!directoryOwners.has(directory)) {
+      directoryOwners.set(directory, repository);
     }
   }
 
-  logger.cloningComplete(successCount, errorCount, config.clonePath);
+  // The progress line replaces the per-repository "Cloning" messages
+  const progress = ProgressReporter.isSupported() && !outputToStdout
+    ? new ProgressReporter(repositoriesToClone.length)
+    : null;
+
+  const cloneRecords = await runPool(repositoriesToClone, concurrency, async (repository, index): Promise<CloneRecord> => {
+    const repoName = repository.repoSlug;
+    // Keep each repository's log lines together when clones run in parallel, and off the progress line while it is shown
+    const repoLogger = concurrency > 1 || progress ? logger.buffered() : logger;
+    if (!progress) {
+      repoLogger.cloningRepository(repoName, index + 1, repositoriesToClone.length);
+    }
+    repoLogger.debug(`Matched files in ${repoName}`, { repoName, files: repository.matches.map(match => match.filePath) });
+
+    let cloneRecord: CloneRecord;
+    const query = getQuery(repository);
+    const record = toRepositoryRecord(repository, query, layout);
+    const cloneOptions = {
+      branches: query.branches,
+      depth: argv.depth,
+      filter: argv.filter,
+      // Without known paths a sparse clone falls back to a full checkout
+      sparsePaths: argv.sparse ? repository.matches.map(match => match.filePath) : undefined,
+      timeout: gitTimeout,
+      signal: abortController.signal
+    };
+    const conflict = await findConflict(repository, record, directoryOwners.get(record.localPath));
+    if (conflict) {
+      repoLogger.repositoryConflict(repoName, record.localPath, conflict);
+      cloneRecord = { ...record, status: 'conflict', checkedOutBranch: null, error: `${record.localPath} is taken by ${conflict}`, errorClass: null, hooks: [] };
+    } else if (record.existsLocally && onExisting === 'skip') {
+      repoLogger.repositoryExists(repoName);
+      cloneRecord = { ...record, status: 'skipped', checkedOutBranch: null, error: null, errorClass: null, hooks: [] };
+    } else {
+      const retry = { retries: argv.retries, delay: retryDelay, signal: abortController.signal };
+      try {
+        if (record.existsLocally) {
+          const update = await withRetry(`Updating ${repoName}`, () => updateRepository(repository.cloneUrl, repoName, record.localPath, {
+            ...cloneOptions,
+            strategy: onExisting as Exclude<ExistingStrategy, 'skip'>,
+            force: argv.force
+          }, repoLogger), retry, repoLogger);
+          cloneRecord = update.outcome === 'dirty'
+            ? { ...record, status: 'skipped', checkedOutBranch: update.branch, error: 'Working tree has local changes', errorClass: null, hooks: [] }
+            : { ...record, status: update.outcome, checkedOutBranch: update.branch, error: null, errorClass: null, hooks: [] };
+        } else {
+          const checkedOutBranch = await withRetry(`Cloning ${repoName}`, () => {
+            // A clone that failed after creating the directory would block the next attempt
+            rmSync(record.localPath, { recursive: true, force: true });
+            return cloneRepository(repository.cloneUrl, repoName, record.localPath, cloneOptions, repoLogger);
+          }, retry, repoLogger);
+          cloneRecord = { ...record, status: 'cloned', checkedOutBranch, error: null, errorClass: null, hooks: [] };
+        }
+      } catch (error) {
+        const classified = classifyError(error);
+        repoLogger.cloneError(repoName, classified.message, classified.errorClass);
+        cloneRecord = { ...record, status: 'failed', checkedOutBranch: null, error: classified.message, errorClass: classified.errorClass, hooks: [] };
+      }
+    }
+
+    // The pipeline runs in every repository that ended up checked out; a failing step only affects this repository
+    if (hookSteps.length && ['cloned', 'updated', 'current'].includes(cloneRecord.status)) {
+      cloneRecord.hooks = await runHooks(hookSteps, {
+        repoName,
+        workspace: repository.workspace,
+        cloneUrl: repository.cloneUrl,
+        branch: cloneRecord.checkedOutBranch,
+        localPath: record.localPath,
+        files: record.files
+      }, { timeout: argv.execTimeout * 1000, signal: abortController.signal }, repoLogger);
+    }
+
+    // Saved after every repository so a crashed run can be resumed
+    const manifestEntry = manifestEntries.get(repository);
+    if (manifestEntry) {
+      recordCloneResult(manifestEntry, cloneRecord);
+      writeManifest(manifest, manifestFile);
+    }
+
+    // Erase the progress line first, it has no trailing newline for the log lines to start on
+    progress?.clear();
+    repoLogger.flush();
+    progress?.update(cloneRecord.status !== 'failed' && cloneRecord.status !== 'conflict');
+    return cloneRecord;
+  });
+  progress?.finish();
+  process.removeListener('SIGINT', onInterrupt);
+
+  const summary = summarizeClones(cloneRecords, clonePaths, querySummaries);
+  logger.cloningComplete(summary.cloned, summary.failed, clonePaths);
+
+  if (outputFormat) {
+    writeOutput(formatSummary(summary, outputFormat), argv.outputFile);
+    if (outputToStdout) {
+      return;
+    }
+  }
 
   // Log summary to console
   console.log(`\n🎉 Cloning complete!`);
-  console.log(`✅ Successfully cloned: ${successCount} repository(ies)`);
-  if (errorCount > 0) {
-    console.log(`❌ Failed to clone: ${errorCount} repository(ies)`);
+  console.log(`✅ Successfully cloned: ${summary.cloned} repository(ies)`);
+  if (onExisting !== 'skip') {
+    console.log(`🔄 Updated: ${summary.updated} repository(ies), ${summary.current} already up to date`);
+  }
+  printFailures(summary, 'Failed to clone');
+  if (summary.conflicts > 0) {
+    console.log(`⚠️ Directory conflicts: ${summary.conflicts} repository(ies)`);
+  }
+  if (hookSteps.length) {
+    printFailedHooks(summary);
+  }
+  if (queries.length > 1) {
+    for (const query of querySummaries) {
+      console.log(`🔎 ${query.name}: ${query.repositories} repository(ies)`);
+    }
+  }
+  console.log(`📂 Repositories saved to: ${clonePaths.join(', ')}`);
+  console.log(`📋 Run manifest saved to: ${manifestFile}`);
+  if (summary.failed > 0) {
+    console.log(`🔁 Retry the failed repositories with: clone ${manifestFile} --retry-failed`);
   }
-  console.log(`📂 Repositories saved to: ${config.clonePath}`);
 
   // Log file information
   const logFile = logger.getLogFilePath();
@@ -178,51 +1266,195 @@ async function main() {
   }
 }
 
-async function cloneRepository(repoUrl: string, repoName: string, clonePath: string, branch: string | undefined, logger: any): Promise<void> {
-  return new Promise<void>((resolve, reject) => {
-    if (branch) {
-      // Try to clone from specific branch first
-      logger.debug(`Attempting to clone from branch: ${branch}`, { repoName, branch });
-
-      exec(`git clone -b ${branch} ${repoUrl} ${clonePath}/${repoName}`, (error, stdout, stderr) => {
-        if (error) {
-          logger.cloneFallback(repoName, branch);
+function summarizeClones(records: CloneRecord[], clonePaths: string[], queries: QuerySummary[]): CloneSummary {
+  const count = (status: CloneRecord['status']) => records.filter(record => record.status === status).length;
+  return {
+    clonePaths,
+    cloned: count('cloned'),
+    updated: count('updated'),
+    current: count('current'),
+    skipped: count('skipped'),
+    failed: count('failed'),
+    errors: countErrorClasses(records),
+    conflicts: count('conflict'),
+    hooksFailed: records.filter(record => hooksFailed(record.hooks)).length,
+    queries,
+    repositories: records
+  };
+}
 
-          // Fall back to default branch
-          exec(`git clone ${repoUrl} ${clonePath}/${repoName}`, (fallbackError, fallbackStdout, fallbackStderr) => {
-            if (fallbackError) {
-              reject(new Error(fallbackError.message));
-            } else {
-              logger.cloneSuccess(repoName);
-              resolve();
-            }
-          });
-        } else {
-          logger.cloneSuccess(repoName, branch);
-          resolve();
-        }
-      });
-    } else {
-      // Clone from default branch
-      exec(`git clone ${repoUrl} ${clonePath}/${repoName}`, (error, stdout, stderr) => {
-        if (error) {
-          reject(new Error(error.message));
-        } else {
-          logger.cloneSuccess(repoName);
-          resolve();
-        }
-      });
+// "❌ <label>: n repository(ies)" followed by the count per error class
+function printFailures(summary: CloneSummary, label: string): void {
+  if (summary.failed > 0) {
+    console.log(`❌ ${label}: ${summary.failed} repository(ies)`);
+    for (const [errorClass, count] of Object.entries(summary.errors)) {
+      console.log(`   ${errorClass}: ${count}`);
     }
+  }
+}
+
+function printFailedHooks(summary: CloneSummary): void {
+  console.log(`🪝 Commands failed in: ${summary.hooksFailed} repository(ies)`);
+  for (const record of summary.repositories.filter(record => hooksFailed(record.hooks))) {
+    const failed = record.hooks.find(hook => hook.exitCode !== 0);
+    console.log(`   ${record.repoName}: ${failed?.name} (exit code ${failed?.exitCode ?? 'none'})`);
+  }
+}
+
+// A clone with the status it had when it was selected
+interface SelectedClone {
+  clone: LocalClone;
+  status: RepositoryStatus;
+}
+
+// The clones of --manifest or --clone-path whose status matches --only; null when there are none
+async function selectClones(argv: SelectArguments, context: CommandContext, fetch: boolean = false): Promise<SelectedClone[] | null> {
+  const { config, logger, concurrency } = context;
+  const filters = (argv.only || []) as StatusFilter[];
+
+  const manifest = argv.manifest ? readManifest(argv.manifest) : null;
+  const clones = manifest ? getManifestClones(manifest) : await getDirectoryClones(config.clonePath);
+  logger.debug('Reading status', { manifest: argv.manifest, clonePath: config.clonePath, fetch, only: filters, clones: clones.length });
+  if (clones.length === 0) {
+    logger.warn(`❌ No clones found in ${argv.manifest || config.clonePath}`);
+    return null;
+  }
+
+  const statuses = await runPool(clones, concurrency, clone => getRepositoryStatus(clone, { fetch, timeout: argv.gitTimeout * 1000 }));
+  const selected = clones
+    .map((clone, index) => ({ clone, status: statuses[index]! }))
+    .filter(({ status }) => matchesStatus(status, filters));
+  if (selected.length === 0) {
+    logger.warn(`❌ No clones match --only ${filters.join(' ')}`);
+    return null;
+  }
+  return selected;
+}
+
+// Runs the operation in each selected clone with --concurrency, then reports the outcomes by status and error class
+async function runOperation(
+  operation: string,
+  argv: SelectArguments,
+  context: CommandContext,
+  worker: (selected: SelectedClone, options: { timeout: number; signal: AbortSignal; retry: RetryOptions }, logger: Logger) => Promise<OperationRecord>
+): Promise<void> {
+  const { logger, concurrency, outputFormat, outputToStdout } = context;
+  const selected = await selectClones(argv, context);
+  if (!selected) {
+    return;
+  }
+
+  if (argv.dryRun) {
+    logger.info(`🔍 DRY RUN - Would run ${operation} in the following repositories:`);
+    selected.forEach(({ clone, status }, index) => logger.info(`${index + 1}. ${clone.repoName} (${status.branch || 'detached'}, ${clone.localPath})`));
+    return;
+  }
+
+  const abortController = new AbortController();
+  const onInterrupt = () => {
+    logger.warn('🛑 Interrupted, cancelling running commands...');
+    abortController.abort();
+  };
+  process.once('SIGINT', onInterrupt);
+
+  const options = {
+    timeout: argv.gitTimeout * 1000,
+    signal: abortController.signal,
+    retry: { retries: argv.retries, delay: argv.retryDelay * 1000, signal: abortController.signal }
+  };
+  const records = await runPool(selected, concurrency, async (item): Promise<OperationRecord> => {
+    const repoLogger = concurrency > 1 ? logger.buffered() : logger;
+    const record = await worker(item, options, repoLogger);
+    repoLogger.flush();
+    return record;
   });
+  process.removeListener('SIGINT', onInterrupt);
+
+  const summary = summarizeOperation(operation, records);
+  if (outputFormat) {
+    writeOutput(formatOperationSummary(summary, outputFormat), argv.outputFile);
+    if (outputToStdout) {
+      return;
+    }
+  }
+
+  // Command output, one repository after the other
+  for (const record of records.filter(record => record.hooks.some(hook => hook.output))) {
+    console.log(`\n── ${record.repoName} ──`);
+    for (const hook of record.hooks.filter(hook => hook.output)) {
+      console.log(hook.output);
+    }
+  }
+
+  console.log(`\n🎉 ${operation} complete!`);
+  console.log(`✅ Succeeded: ${summary.succeeded} repository(ies)${summary.unchanged ? `, ${summary.unchanged} unchanged` : ''}`);
+  if (summary.skipped > 0) {
+    console.log(`✋ Skipped: ${summary.skipped} repository(ies) with local changes (--force to override)`);
+  }
+  if (summary.failed > 0) {
+    console.log(`❌ Failed: ${summary.failed} repository(ies)`);
+    for (const [errorClass, count] of Object.entries(summary.errors)) {
+      console.log(`   ${errorClass}: ${count}`);
+    }
+    for (const record of records.filter(record => record.status === 'failed')) {
+      console.log(`   ${record.repoName}: ${record.error}`);
+    }
+  }
 }
 
-main().catch(error => {
-  const logger = getLogger();
-  logger.error('💥 Fatal error:', { error: error.message, stack: error.stack });
+// Failed repositories per error class, most frequent first
+function countErrorClasses(records: CloneRecord[]): Record<string, number> {
+  const counts = new Map<string, number>();
+  for (const record of records) {
+    if (record.status === 'failed') {
+      const errorClass = record.errorClass || 'UnknownError';
+      counts.set(errorClass, (counts.get(errorClass) || 0) + 1);
+    }
+  }
+  return Object.fromEntries([...counts].sort((a, b) => b[1] - a[1]));
+}
 
-  // Also log to console if not disabled
-  if (logger) {
-    console.error('💥 Fatal error:', error.message);
+function toRepositoryRecord(repository: RepositoryResult, query: SearchQuery, layout: Layout, clonedTo?: string): RepositoryRecord {
+  const { branches } = query;
+  const localPath = clonedTo || path.join(query.clonePath, getRepositoryDirectory(repository, layout));
+  return {
+    repoName: repository.repoSlug,
+    workspace: repository.workspace,
+    project: repository.project ?? null,
+    cloneUrl: repository.cloneUrl,
+    branch: branches.length ? branches.join(',') : null,
+    existsLocally: existsSync(localPath),
+    localPath,
+    files: repository.matches.map(match => match.filePath),
+    queries: repository.queries
+  };
+}
+
+// Returns what occupies the repository's directory when it isn't this repository
+async function findConflict(repository: RepositoryResult, record: RepositoryRecord, directoryOwner: RepositoryResult | undefined): Promise<string | undefined> {
+  if (directoryOwner && directoryOwner !== repository) {
+    return directoryOwner.cloneUrl;
+  }
+  if (!record.existsLocally) {
+    return undefined;
   }
+
+  const originUrl = await getOriginUrl(record.localPath);
+  if (!originUrl) {
+    return 'a directory that is not a git clone';
+  }
+  return isSameRepository(originUrl, repository.cloneUrl) ? undefined : originUrl;
+}
+
+main().catch(error => {
+  try {
+    const logger = getLogger();
+    logger.error('💥 Fatal error:', { error: error.message, stack: error.stack });
+  } catch {
+    // Failed before the logger was initialized, e.g. on an invalid config file
+  }
+
+  // Also log to console
+  console.error('💥 Fatal error:', error.message);
   process.exit(1);
 });
@@ -0,0 +1,352 @@
+import { BitbucketApiAuth, getBitbucketApiAuth } from './config.js';
+import { AuthError, NetworkError } from './errors.js';
+import { Logger } from './logger.js';
+import { buildCloneUrl, buildCloneUrls, CloneProtocol, CloneUrls, detectFlavor, Flavor, getInstanceUrl, RepositoryRef } from './repository.js';
+import { RetryOptions, withRetry } from './retry.js';
+import { SearchResult } from './search.js';
+
+const CLOUD_API_URL = 'https://api.bitbucket.org/2.0';
+const CLOUD_PAGE_LENGTH = 50;
+const DATACENTER_PAGE_LENGTH = 100;
+const DEFAULT_REQUEST_TIMEOUT = 30 * 1000;
+
+export interface ApiSearchOptions {
+  workspace?: string | undefined; // Bitbucket Cloud workspace to search in
+  protocol?: CloneProtocol | undefined; // Clone URL protocol (defaults to https)
+  resolveCloneLinks?: boolean | undefined; // Look up links.clone for each repository
+  flavor?: Flavor | undefined; // Cloud or Data Center (detected from the URL by default)
+  retry?: RetryOptions | undefined; // Retries of failed requests
+  timeout?: number | undefined; // Milliseconds to wait for each request (default 30s)
+}
+
+// Bitbucket Cloud: GET /2.0/repositories/{workspace}/{repo_slug}
+// Bitbucket Data Center: GET /rest/api/1.0/projects/{projectKey}/repos/{repositorySlug}
+interface CloneLinksRepository {
+  links: { clone?: Array<{ href: string; name: string }> };
+}
+
+interface CloudContentMatch {
+  lines: Array<{
+    line: number;
+    segments: Array<{ text: string; match?: boolean }>;
+  }>;
+}
+
+// Bitbucket Cloud: GET /2.0/workspaces/{workspace}/search/code
+interface CloudCodeSearchPage {
+  values: Array<{
+    content_matches?: CloudContentMatch[];
+    file: {
+      path: string;
+      commit?: {
+        repository?: {
+          full_name: string;
+        };
+      };
+      links?: {
+        self?: { href: string }; // .../2.0/repositories/{workspace}/{slug}/src/{commit}/{path}
+      };
+    };
+  }>;
+  next?: string;
+}
+
+// Bitbucket Data Center: POST /rest/search/latest/search
+interface DataCenterSearchResponse {
+  code?: {
+    isLastPage: boolean;
+    nextStart?: number;
+    values: Array<{
+      file: string;
+      hitContexts?: Array<Array<{ line: number; text: string }>>;
+      repository: {
+        slug: string;
+        archived?: boolean;
+        project: { key: string };
+        links?: { clone?: Array<{ href: string; name: string }> };
+      };
+    }>;
+  };
+}
+
+export interface PullRequestOptions {
+  title: string;
+  description: string;
+  sourceBranch: string;
+  targetBranch: string;
+  flavor?: Flavor | undefined; // Cloud or Data Center (detected from the URL by default)
+  retry?: RetryOptions | undefined;
+  timeout?: number | undefined; // Milliseconds to wait for each request (default 30s)
+}
+
+export interface PullRequest {
+  id: number;
+  url: string; // Web page of the pull request
+}
+
+// Bitbucket Cloud: POST /2.0/repositories/{workspace}/{repo_slug}/pullrequests
+interface CloudPullRequest {
+  id: number;
+  links: { html: { href: string } };
+}
+
+// Bitbucket Data Center: POST /rest/api/1.0/projects/{projectKey}/repos/{repositorySlug}/pull-requests
+interface DataCenterPullRequest {
+  id: number;
+  links: { self: Array<{ href: string }> };
+}
+
+export async function searchApi(uri: string, searchTerm: string, logger?: Logger, options: ApiSearchOptions = {}): Promise<SearchResult[]> {
+  const auth = await getBitbucketApiAuth();
+
+  if ((options.flavor || detectFlavor(uri)) === 'cloud') {
+    const workspace = options.workspace || getWorkspaceFromUrl(uri);
+    if (!workspace) {
+      throw new Error('A workspace is required for Bitbucket Cloud API search (use --workspace or include it in --url)');
+    }
+    return searchCloud(uri, workspace, searchTerm, auth, options, logger);
+  }
+
+  return searchDataCenter(uri, searchTerm, auth, options, logger);
+}
+
+// Data Center needs the instance URL, as its REST API lives on the same host
+export async function getRepositoryCloneUrls(repository: RepositoryRef, flavor: Flavor = 'cloud', uri?: string, retry?: RetryOptions, logger?: Logger): Promise<CloneUrls> {
+  const auth = await getBitbucketApiAuth();
+  const workspace = encodeURIComponent(repository.workspace);
+  const slug = encodeURIComponent(repository.slug);
+
+  let url: string;
+  if (flavor === 'datacenter') {
+    const apiUrl = auth.apiUrl || (uri && getInstanceUrl(uri, 'datacenter'));
+    if (!apiUrl) {
+      throw new Error('BITBUCKET_API_URL is required to look up Data Center clone links');
+    }
+    url = `${apiUrl}/rest/api/1.0/projects/${workspace}/repos/${slug}`;
+  } else {
+    url = `${auth.apiUrl || CLOUD_API_URL}/repositories/${workspace}/${slug}`;
+  }
+
+  const metadata: CloneLinksRepository = await requestJson(url, auth, {}, retry, logger);
+  return getCloneLinks(metadata.links.clone || []);
+}
+
+// Opens a pull request from the (already pushed) source branch; uri is the Bitbucket instance
+export async function createPullRequest(repository: RepositoryRef, uri: string, options: PullRequestOptions, logger?: Logger): Promise<PullRequest> {
+  const auth = await getBitbucketApiAuth();
+  const workspace = encodeURIComponent(repository.workspace);
+  const slug = encodeURIComponent(repository.slug);
+
+  if ((options.flavor || detectFlavor(uri)) === 'datacenter') {
+    const apiUrl = auth.apiUrl || getInstanceUrl(uri, 'datacenter');
+    const ref = (branch: string) => ({ id: `refs/heads/${branch}` });
+    const pullRequest: DataCenterPullRequest = await requestJson(`${apiUrl}/rest/api/1.0/projects/${workspace}/repos/${slug}/pull-requests`, auth, {
+      method: 'POST',
+      body: JSON.stringify({
+        title: options.title,
+        description: options.description,
+        fromRef: ref(options.sourceBranch),
+        toRef: ref(options.targetBranch)
+      }),
+      timeout: options.timeout
+    }, options.retry, logger);
+    return { id: pullRequest.id, url: pullRequest.links.self[0]?.href || '' };
+  }
+
+  const pullRequest: CloudPullRequest = await requestJson(`${auth.apiUrl || CLOUD_API_URL}/repositories/${workspace}/${slug}/pullrequests`, auth, {
+    method: 'POST',
+    body: JSON.stringify({
+      title: options.title,
+      description: options.description,
+      source: { branch: { name: options.sourceBranch } },
+      destination: { branch: { name: options.targetBranch } }
+    }),
+    timeout: options.timeout
+  }, options.retry, logger);
+  return { id: pullRequest.id, url: pullRequest.links.html.href };
+}
+
+// Data Center names its HTTPS clone link "http"
+function getCloneLinks(links: Array<{ href: string; name: string }>): CloneUrls {
+  const cloneUrls: CloneUrls = {};
+  for (const link of links) {
+    if (link.name === 'https' || link.name === 'http') {
+      cloneUrls.https = link.href;
+    } else if (link.name === 'ssh') {
+      cloneUrls.ssh = link.href;
+    }
+  }
+  return cloneUrls;
+}
+
+function getWorkspaceFromUrl(uri: string): string | undefined {
+  const [workspace] = new URL(uri).pathname.split('/').filter(Boolean);
+  return workspace;
+}
+
+// "{workspace}/{slug}" from the API link of a search result's file
+function getFullNameFromFileLink(href: string | undefined): string | undefined {
+  const match = href?.match(/\/repositories\/([^/]+)\/([^/]+)\/src\//);
+  return match ? `${decodeURIComponent(match[1]!)}/${decodeURIComponent(match[2]!)}` : undefined;
+}
+
+async function searchCloud(uri: string, workspace: string, searchTerm: string, auth: BitbucketApiAuth, options: ApiSearchOptions, logger?: Logger): Promise<SearchResult[]> {
+  const apiUrl = auth.apiUrl || CLOUD_API_URL;
+  const protocol = options.protocol || 'https';
+  // The repository isn't part of the default response
+  const query = new URLSearchParams({ search_query: searchTerm, pagelen: String(CLOUD_PAGE_LENGTH), fields: '+values.file.commit.repository' });
+  let nextUrl: string | undefined = `${apiUrl}/workspaces/${encodeURIComponent(workspace)}/search/code?${query}`;
+  let currentPage = 1;
+
+  // Clone URLs are resolved once per repository
+  const cloneUrlCache = new Map<string, CloneUrls>();
+  const results: SearchResult[] = [];
+  while (nextUrl) {
+    logger?.debug(`Fetching code search page ${currentPage}`, { url: nextUrl });
+
+    const page: CloudCodeSearchPage = await requestJson(nextUrl, auth, { timeout: options.timeout }, options.retry, logger);
+    for (const value of page.values) {
+      const fullName = value.file.commit?.repository?.full_name || getFullNameFromFileLink(value.file.links?.self?.href);
+      if (!fullName) {
+        logger?.debug(`Skipping ${value.file.path}: the result has no repository`);
+        continue;
+      }
+      const [repoWorkspace = workspace, slug = fullName] = fullName.split('/');
+      const repositoryRef = { workspace: repoWorkspace, slug };
+
+      let cloneUrls = cloneUrlCache.get(fullName);
+      if (!cloneUrls) {
+        cloneUrls = options.resolveCloneLinks
+          ? { ...buildCloneUrls(uri, repositoryRef), ...await getRepositoryCloneUrls(repositoryRef, 'cloud', uri, options.retry, logger) }
+          : buildCloneUrls(uri, repositoryRef);
+        cloneUrlCache.set(fullName, cloneUrls);
+      }
+
+      const lines = (value.content_matches || []).flatMap(match => match.lines);
+      results.push({
+        workspace: repoWorkspace,
+        repoSlug: slug,
+        filePath: value.file.path,
+        lines: lines.map(line => line.line),
+        snippet: lines.map(line => line.segments.map(segment => segment.text).join('')).join('\n'),
+        cloneUrls,
+        cloneUrl: cloneUrls[protocol] || buildCloneUrl(uri, repositoryRef, protocol)
+      });
+    }
+
+    nextUrl = page.next;
+    currentPage++;
+  }
+
+  return results;
+}
+
+async function searchDataCenter(uri: string, searchTerm: string, auth: BitbucketApiAuth, options: ApiSearchOptions, logger?: Logger): Promise<SearchResult[]> {
+  const apiUrl = auth.apiUrl || getInstanceUrl(uri, 'datacenter');
+  const protocol = options.protocol || 'https';
+  const searchUrl = `${apiUrl}/rest/search/latest/search`;
+  let start: number | undefined = 0;
+
+  const results: SearchResult[] = [];
+  while (start !== undefined) {
+    logger?.debug(`Fetching code search results from ${start}`, { url: searchUrl, start });
+
+    const response: DataCenterSearchResponse = await requestJson(searchUrl, auth, {
+      method: 'POST',
+      body: JSON.stringify({
+        query: searchTerm,
+        entities: { code: { start, limit: DATACENTER_PAGE_LENGTH } },
+        limits: { primary: DATACENTER_PAGE_LENGTH, secondary: 10 }
+      }),
+      timeout: options.timeout
+    }, options.retry, logger);
+
+    const code = response.code;
+    if (!code) {
+      break;
+    }
+
+    for (const value of code.values) {
+      // Fall back to the standard URL formats when the response has no clone links
+      const repositoryRef = { workspace: value.repository.project.key, slug: value.repository.slug };
+      const cloneUrls: CloneUrls = {
+        ...buildCloneUrls(uri, repositoryRef, 'datacenter'),
+        ...getCloneLinks(value.repository.links?.clone || [])
+      };
+      const cloneUrl = cloneUrls[protocol] || buildCloneUrl(uri, repositoryRef, protocol, 'datacenter');
+
+      const lines = (value.hitContexts || []).flat();
+      results.push({
+        workspace: value.repository.project.key,
+        project: value.repository.project.key,
+        repoSlug: value.repository.slug,
+        filePath: value.file,
+        lines: lines.map(line => line.line),
+        snippet: lines.map(line => stripHighlighting(line.text)).join('\n'),
+        cloneUrls,
+        cloneUrl,
+        archived: value.repository.archived
+      });
+    }
+
+    start = code.isLastPage ? undefined : code.nextStart;
+  }
+
+  return results;
+}
+
+// Data Center wraps matched text in <em> tags and HTML-escapes the rest
+function stripHighlighting(text: string): string {
+  return text
+    .replace(/<\/?em>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// Rate limiting, server errors and timeouts are retried; rejected credentials are not
+async function requestJson<T>(url: string, auth: BitbucketApiAuth, init: { method?: string; body?: string; timeout?: number | undefined } = {}, retry?: RetryOptions, logger?: Logger): Promise<T> {
+  const headers: Record<string, string> = {
+    Accept: 'application/json',
+    Authorization: getAuthorizationHeader(auth)
+  };
+  if (init.body) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  const timeout = init.timeout ?? DEFAULT_REQUEST_TIMEOUT;
+  return withRetry(`Request to ${new URL(url).pathname}`, async () => {
+    // Covers reading the body too, so a server that stops sending can't stall the search
+    const signal = AbortSignal.timeout(timeout);
+    try {
+      const response = await fetch(url, { method: init.method || 'GET', headers, body: init.body ?? null, signal });
+      if (!response.ok) {
+        const body = await response.text();
+        const message = `Bitbucket API request failed (${response.status} ${response.statusText}): ${body.slice(0, 200)}`;
+        if (response.status === 401 || response.status === 403) {
+          throw new AuthError(message);
+        }
+        if (response.status === 429 || response.status >= 500) {
+          throw new NetworkError(message);
+        }
+        throw new Error(message);
+      }
+
+      return await response.json() as T;
+    } catch (error) {
+      if (signal.aborted) {
+        throw new NetworkError(`Bitbucket API request timed out after ${timeout}ms: ${new URL(url).pathname}`, { cause: error });
+      }
+      throw error;
+    }
+  }, retry, logger);
+}
+
+function getAuthorizationHeader(auth: BitbucketApiAuth): string {
+  if (auth.token) {
+    return `Bearer ${auth.token}`;
+  }
+  return `Basic ${Buffer.from(`${auth.username}:${auth.password}`).toString('base64')}`;
+}
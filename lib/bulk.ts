@@ -0,0 +1,100 @@
+import { BranchNotFound, classifyError } from './errors.js';
+import { git } from './git.js';
+import { HookOptions, HookResult, HookStep, hooksFailed, runHooks } from './hooks.js';
+import { LocalClone, RepositoryStatus } from './local.js';
+import { Logger } from './logger.js';
+import { RetryOptions, withRetry } from './retry.js';
+
+// succeeded: the branch was switched, or every command passed
+// unchanged: the branch was already checked out
+// skipped: left alone because of local changes
+export type OperationStatus = 'succeeded' | 'unchanged' | 'skipped' | 'failed';
+
+// The outcome of checkout or foreach in one clone
+export interface OperationRecord {
+  repoName: string;
+  localPath: string;
+  status: OperationStatus;
+  branch: string | null; // Checked out branch afterwards
+  hooks: HookResult[]; // Commands run by foreach
+  error: string | null;
+  errorClass: string | null;
+}
+
+export interface CheckoutOptions {
+  create?: boolean | undefined; // Create the branch from HEAD when neither the clone nor origin has it
+  fetch?: boolean | undefined; // Fetch from origin first, to find branches pushed since the last fetch
+  force?: boolean | undefined; // Switch even with local changes (git carries them over when it can)
+  timeout?: number | undefined; // Milliseconds allowed per git command
+  signal?: AbortSignal | undefined;
+  retry?: RetryOptions | undefined;
+}
+
+// Checks out a local branch, or a new tracking branch when only origin has it
+export async function checkoutBranch(clone: LocalClone, status: RepositoryStatus, branch: string, options: CheckoutOptions, logger: Logger): Promise<OperationRecord> {
+  const run = (args: string[]) => git(args, { cwd: clone.localPath, timeout: options.timeout, signal: options.signal });
+  const hasRef = (ref: string) => run(['rev-parse', '--verify', '--quiet', ref]).then(() => true, () => false);
+  const record: OperationRecord = {
+    repoName: clone.repoName,
+    localPath: clone.localPath,
+    status: 'unchanged',
+    branch: status.branch,
+    hooks: [],
+    error: null,
+    errorClass: null
+  };
+
+  if (status.branch === branch) {
+    logger.debug(`${clone.repoName} is already on ${branch}`, { repoName: clone.repoName, branch });
+    return record;
+  }
+  if (status.dirty && !options.force) {
+    logger.checkoutDirty(clone.repoName, branch);
+    return { ...record, status: 'skipped', error: 'Working tree has local changes' };
+  }
+
+  try {
+    if (options.fetch) {
+      await withRetry(`Fetching ${clone.repoName}`, () => run(['fetch', '--prune', 'origin']), options.retry, logger);
+    }
+
+    if (await hasRef(`refs/heads/${branch}`)) {
+      await run(['checkout', branch, '--']);
+    } else if (await hasRef(`refs/remotes/origin/${branch}`)) {
+      await run(['checkout', '-b', branch, '--track', `origin/${branch}`]);
+    } else if (options.create) {
+      await run(['checkout', '-b', branch]);
+    } else {
+      throw new BranchNotFound(`Branch ${branch} not found in the clone or on origin (use --create to create it)`);
+    }
+    logger.branchCheckedOut(clone.repoName, branch);
+    return { ...record, status: 'succeeded', branch };
+  } catch (error) {
+    const classified = classifyError(error);
+    logger.checkoutError(clone.repoName, classified.message, classified.errorClass);
+    return { ...record, status: 'failed', error: classified.message, errorClass: classified.errorClass };
+  }
+}
+
+// Runs the commands in the clone like --exec does; the first failing command ends the pipeline
+export async function runCommands(clone: LocalClone, status: RepositoryStatus, steps: HookStep[], options: HookOptions, logger: Logger): Promise<OperationRecord> {
+  const hooks = await runHooks(steps, {
+    repoName: clone.repoName,
+    workspace: clone.workspace,
+    cloneUrl: clone.cloneUrl,
+    branch: status.branch,
+    localPath: clone.localPath,
+    files: clone.entry?.repository.matches.map(match => match.filePath) || []
+  }, options, logger);
+
+  const failed = hooks.find(hook => hook.exitCode !== 0);
+  return {
+    repoName: clone.repoName,
+    localPath: clone.localPath,
+    status: hooksFailed(hooks) ? 'failed' : 'succeeded',
+    branch: status.branch,
+    hooks,
+    error: failed ? `"${failed.name}" ${failed.exitCode === null ? 'was stopped' : `exited with ${failed.exitCode}`}` : null,
+    errorClass: failed ? 'CommandFailed' : null
+  };
+}
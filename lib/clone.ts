@@ -0,0 +1,241 @@
+import { existsSync, readdirSync, rmSync } from 'node:fs';
+import path from 'node:path';
+import { git, GitOptions } from './git.js';
+import { Logger } from './logger.js';
+
+export type ExistingStrategy = 'skip' | 'fetch' | 'pull' | 'reset' | 'reclone';
+
+export const EXISTING_STRATEGIES: readonly ExistingStrategy[] = ['skip', 'fetch', 'pull', 'reset', 'reclone'];
+
+// updated: the checkout (or its remote-tracking refs for fetch) moved
+// current: nothing changed
+// dirty: left alone because the working tree has local changes
+export type UpdateOutcome = 'updated' | 'current' | 'dirty';
+
+export interface UpdateResult {
+  outcome: UpdateOutcome;
+  branch: string; // Branch checked out after the update
+}
+
+// Runs git inside one repository
+type GitRunner = (args: string[]) => Promise<string>;
+
+export interface CloneOptions {
+  branches?: string[] | undefined; // Branches to try in order (falls back to the default branch)
+  depth?: number | undefined; // Shallow clone with this many commits of history
+  filter?: string | undefined; // Partial clone filter, e.g. blob:none
+  sparsePaths?: string[] | undefined; // Matched file paths; only their directories are checked out
+  timeout?: number | undefined; // Milliseconds allowed per git command
+  signal?: AbortSignal | undefined; // Cancels running git commands
+}
+
+export interface UpdateOptions extends CloneOptions {
+  strategy: Exclude<ExistingStrategy, 'skip'>;
+  force?: boolean | undefined; // Update even when the working tree is dirty
+}
+
+// Splits "develop,main,master" into a prioritized branch list
+export function parseBranchList(value: string | undefined): string[] {
+  return (value || '').split(',').map(branch => branch.trim()).filter(Boolean);
+}
+
+// Clones the repository and returns the branch that was checked out
+export async function cloneRepository(repoUrl: string, repoName: string, repoPath: string, options: CloneOptions, logger: Logger): Promise<string> {
+  const gitOptions: GitOptions = { timeout: options.timeout, signal: options.signal };
+  const branches = options.branches || [];
+  const cloneArgs = getCloneArgs(options);
+
+  if (branches.length > 0) {
+    logger.debug(`Looking for branches on remote: ${branches.join(', ')}`, { repoName, branches });
+
+    // Auth and network failures surface here instead of being mistaken for a missing branch
+    const branch = await findRemoteBranch(repoUrl, branches, gitOptions);
+    if (branch) {
+      await git(['clone', ...cloneArgs, '--branch', branch, '--', repoUrl, repoPath], gitOptions);
+      await applySparseCheckout(repoPath, repoName, options, logger);
+      logger.cloneSuccess(repoName, branch);
+      return branch;
+    }
+
+    logger.cloneFallback(repoName, branches);
+  }
+
+  // Clone from default branch
+  await git(['clone', ...cloneArgs, '--', repoUrl, repoPath], gitOptions);
+  await applySparseCheckout(repoPath, repoName, options, logger);
+  const defaultBranch = await git(['rev-parse', '--abbrev-ref', 'HEAD'], { ...gitOptions, cwd: repoPath });
+  logger.cloneSuccess(repoName, defaultBranch);
+  return defaultBranch;
+}
+
+function getCloneArgs(options: CloneOptions): string[] {
+  const args: string[] = [];
+  if (options.depth) {
+    args.push('--depth', String(options.depth));
+  }
+  if (options.filter) {
+    args.push(`--filter=${options.filter}`);
+  }
+  if (options.sparsePaths?.length) {
+    args.push('--sparse');
+  }
+  return args;
+}
+
+// Limits the checkout to the directories holding the matched files
+async function applySparseCheckout(repoPath: string, repoName: string, options: CloneOptions, logger: Logger): Promise<void> {
+  if (!options.sparsePaths?.length) {
+    return;
+  }
+
+  const directories = getSparseDirectories(options.sparsePaths);
+  logger.debug(`Sparse checkout of ${directories.length} directory(ies)`, { repoName, directories });
+  await git(['sparse-checkout', 'set', '--cone', '--', ...directories], { cwd: repoPath, timeout: options.timeout, signal: options.signal });
+}
+
+// Top-level files are always part of a cone-mode checkout, so only nested directories are listed
+export function getSparseDirectories(filePaths: string[]): string[] {
+  const directories = new Set<string>();
+  for (const filePath of filePaths) {
+    const directory = path.posix.dirname(filePath.replace(/^\/+/, ''));
+    if (directory !== '.') {
+      directories.add(directory);
+    }
+  }
+  return [...directories].sort();
+}
+
+// Returns the origin URL of an existing checkout, or undefined when it isn't a git repository
+export async function getOriginUrl(repoPath: string): Promise<string | undefined> {
+  if (!existsSync(path.join(repoPath, '.git'))) {
+    return undefined;
+  }
+  try {
+    return await git(['remote', 'get-url', 'origin'], { cwd: repoPath });
+  } catch {
+    return undefined;
+  }
+}
+
+// Git clones below the directory, down to the depth of the deepest --layout (<project>/<repo>)
+export function findClones(directory: string, depth: number = 2): string[] {
+  if (!existsSync(directory)) {
+    return [];
+  }
+
+  const clones: string[] = [];
+  for (const entry of readdirSync(directory, { withFileTypes: true })) {
+    if (!entry.isDirectory() || entry.name.startsWith('.')) {
+      continue;
+    }
+    const entryPath = path.join(directory, entry.name);
+    if (existsSync(path.join(entryPath, '.git'))) {
+      clones.push(entryPath);
+    } else if (depth > 1) {
+      clones.push(...findClones(entryPath, depth - 1));
+    }
+  }
+  return clones.sort();
+}
+
+// Returns the first of the branches that exists on the remote
+export async function findRemoteBranch(repoUrl: string, branches: string[], options: GitOptions = {}): Promise<string | undefined> {
+  const output = await git(['ls-remote', '--heads', '--', repoUrl], options);
+  const heads = new Set(
+    output.split('\n')
+      .map(line => line.split('\t')[1])
+      .filter((ref): ref is string => Boolean(ref))
+      .map(ref => ref.replace(/^refs\/heads\//, ''))
+  );
+  return branches.find(branch => heads.has(branch));
+}
+
+export async function updateRepository(repoUrl: string, repoName: string, repoPath: string, options: UpdateOptions, logger: Logger): Promise<UpdateResult> {
+  const run = (args: string[]) => git(args, { cwd: repoPath, timeout: options.timeout, signal: options.signal });
+  const currentBranch = () => run(['rev-parse', '--abbrev-ref', 'HEAD']);
+
+  if (options.strategy !== 'fetch' && !options.force && await isDirty(run)) {
+    logger.repositoryDirty(repoName);
+    return { outcome: 'dirty', branch: await currentBranch() };
+  }
+
+  if (options.strategy === 'reclone') {
+    logger.debug(`Removing ${repoPath} before recloning`, { repoName });
+    rmSync(repoPath, { recursive: true, force: true });
+    const branch = await cloneRepository(repoUrl, repoName, repoPath, options, logger);
+    return { outcome: 'updated', branch };
+  }
+
+  const listRemoteRefs = ['for-each-ref', '--format=%(objectname) %(refname)', 'refs/remotes/origin'];
+  const refsBefore = await run(listRemoteRefs);
+  // Keep shallow clones shallow
+  await run(options.depth ? ['fetch', '--prune', '--depth', String(options.depth), 'origin'] : ['fetch', '--prune', 'origin']);
+
+  if (options.strategy === 'fetch') {
+    const refsAfter = await run(listRemoteRefs);
+    return reportUpdate(repoName, await currentBranch(), refsBefore !== refsAfter, logger);
+  }
+
+  const branch = await resolveRemoteBranch(run, repoName, options.branches || [], { cwd: repoPath, timeout: options.timeout, signal: options.signal }, logger);
+  if (await addFetchedBranch(run, branch)) {
+    await run(options.depth ? ['fetch', '--depth', String(options.depth), 'origin'] : ['fetch', 'origin']);
+  }
+  // Commit and branch name, so switching branches also counts as an update
+  const headBefore = await run(['rev-parse', 'HEAD', '--abbrev-ref', 'HEAD']);
+
+  if (options.strategy === 'reset') {
+    await run(['checkout', '-B', branch, `origin/${branch}`, '--']);
+    await run(['reset', '--hard', `origin/${branch}`, '--']);
+  } else {
+    // Creates a tracking branch from origin when there is no local one yet
+    await run(['checkout', branch, '--']);
+    await run(['merge', '--ff-only', `origin/${branch}`]);
+  }
+
+  const headAfter = await run(['rev-parse', 'HEAD', '--abbrev-ref', 'HEAD']);
+  return reportUpdate(repoName, branch, headBefore !== headAfter, logger);
+}
+
+// Uses the first requested branch origin has, otherwise origin's default branch.
+// Asks the remote, as the fetch refspec of a shallow clone only covers the branch it was cloned with.
+async function resolveRemoteBranch(run: GitRunner, repoName: string, branches: string[], options: GitOptions, logger: Logger): Promise<string> {
+  if (branches.length > 0) {
+    const branch = await findRemoteBranch('origin', branches, options);
+    if (branch) {
+      return branch;
+    }
+    logger.cloneFallback(repoName, branches);
+  }
+
+  // "ref: refs/heads/<branch>\tHEAD"
+  const symref = await run(['ls-remote', '--symref', 'origin', 'HEAD']);
+  const defaultBranch = symref.match(/^ref: refs\/heads\/(\S+)\s+HEAD/m)?.[1];
+  if (!defaultBranch) {
+    throw new Error(`Could not determine the default branch of origin in ${repoName}`);
+  }
+  return defaultBranch;
+}
+
+// Shallow clones only fetch the branch they were cloned with; adds the branch to origin's
+// fetch refspec when it isn't covered, so it can be fetched and tracked. True when it was added.
+async function addFetchedBranch(run: GitRunner, branch: string): Promise<boolean> {
+  const refspecs = (await run(['config', '--get-all', 'remote.origin.fetch'])).split('\n');
+  const covered = refspecs.some(refspec => /\brefs\/heads\/\*:/.test(refspec) || refspec.includes(`refs/heads/${branch}:`));
+  if (!covered) {
+    await run(['remote', 'set-branches', '--add', 'origin', branch]);
+  }
+  return !covered;
+}
+
+async function isDirty(run: GitRunner): Promise<boolean> {
+  return (await run(['status', '--porcelain'])).length > 0;
+}
+
+function reportUpdate(repoName: string, branch: string, changed: boolean, logger: Logger): UpdateResult {
+  if (changed) {
+    logger.repositoryUpdated(repoName, branch);
+    return { outcome: 'updated', branch };
+  }
+  logger.repositoryCurrent(repoName);
+  return { outcome: 'current', branch };
+}
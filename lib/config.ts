@@ -1,15 +1,29 @@
 import dotenv from 'dotenv';
-import { read } from "@1password/op-js";
-import * as OTPAuth from 'otpauth';
 import path from 'path';
+import os from 'os';
+import {
+  CredentialProvider,
+  CREDENTIAL_PROVIDERS,
+  CredentialProviderName,
+  EnvCredentialProvider,
+  OtpKind,
+  OtpOptions,
+  FileCredentialProvider,
+  OnePasswordCredentialProvider,
+  PromptCredentialProvider
+} from './credentials.js';
+import { Profile } from './profiles.js';
+import { Flavor, FLAVORS } from './repository.js';
+
+export { generateTOTP } from './totp.js';
 
 dotenv.config();
 
 export interface BitbucketAuth {
   username: string;
   password: string;
-  bitbucketOtp: string;  // For Bitbucket 2FA
-  atlassianOtp: string;  // For Atlassian 2FA
+  // Generates a code for the Bitbucket or Atlassian 2FA prompt; call it right before typing the code
+  getOtp: (kind: OtpKind, options?: OtpOptions) => Promise<string>;
   baseUrl: string;
 }
 
@@ -19,134 +33,190 @@ export interface BitbucketConfig {
   baseUrl: string;
 }
 
+export interface BitbucketApiAuth {
+  username?: string; // Username for basic authentication
+  password?: string; // App password, or the password of the credential provider
+  token?: string; // Access token (takes precedence over username/app password)
+  apiUrl?: string; // Override for the REST API base URL
+}
+
 export interface OnePasswordConfig {
   prefix: string;
 }
 
 export interface Config {
+  url: string; // Bitbucket URL to search
   clonePath: string; // Path to clone the repositories to
   logDir?: string; // Directory to store log files
   logFile?: string; // Name of the log file
+  sessionFile: string; // Saved browser session (cookies and local storage)
+  credentialsProvider?: CredentialProviderName; // Where the login credentials come from
+  credentialsFile?: string; // Secrets file for the "file" credential provider
+  flavor?: Flavor; // Cloud or Data Center, detected from the URL when unset
+}
+
+let activeProfile: Profile | null = null;
+
+// Selects the config file profile that getConfig() (and so the credential provider) falls back to
+export function setProfile(profile: Profile | null): void {
+  activeProfile = profile;
+  credentialProvider = null;
 }
 
+// Environment variables take precedence over the active profile, which takes precedence over the defaults
 export function getConfig(): Config {
-  const clonePath = process.env.CLONE_PATH || path.join(process.cwd(), 'code');
+  const profile = activeProfile;
+  const url = process.env.BITBUCKET_BASE_URL || profile?.url || 'https://bitbucket.org';
+  const clonePath = process.env.CLONE_PATH || profile?.clonePath || path.join(process.cwd(), 'code');
   const logDir = process.env.LOG_DIR || path.join(process.cwd(), 'logs');
   const logFile = process.env.LOG_FILE || 'scraper.log';
+  const sessionFile = process.env.SESSION_FILE || path.join(os.homedir(), '.config', 'bitbucket-scraper', 'session.json');
 
-  return {
+  const config: Config = {
+    url,
     clonePath,
     logDir,
-    logFile
+    logFile,
+    sessionFile
   };
+  const credentialsProvider = getEnvChoice('CREDENTIALS_PROVIDER', CREDENTIAL_PROVIDERS) || profile?.credentialsProvider;
+  if (credentialsProvider) {
+    config.credentialsProvider = credentialsProvider;
+  }
+  const credentialsFile = process.env.CREDENTIALS_FILE || profile?.credentialsFile;
+  if (credentialsFile) {
+    config.credentialsFile = credentialsFile;
+  }
+  const flavor = getEnvChoice('BITBUCKET_FLAVOR', FLAVORS) || profile?.flavor;
+  if (flavor) {
+    config.flavor = flavor;
+  }
+
+  return config;
 }
 
-export async function getBitbucketAuth(): Promise<BitbucketAuth> {
-  const onePasswordConfig = getOnePasswordConfig();
-  const usernamePath = `${onePasswordConfig.prefix}/username`;
-  const passwordPath = `${onePasswordConfig.prefix}/password`;
-  const baseUrl = process.env.BITBUCKET_BASE_URL || 'https://bitbucket.org';
+// Environment variables limited to a set of values fail early instead of passing a typo along
+function getEnvChoice<T extends string>(name: string, choices: readonly T[]): T | undefined {
+  const value = process.env[name];
+  if (!value) {
+    return undefined;
+  }
+  if (!choices.includes(value as T)) {
+    throw new Error(`Invalid ${name} "${value}": must be one of ${choices.join(', ')}`);
+  }
+  return value as T;
+}
 
-  const username = await read.parse(usernamePath);
-  const password = await read.parse(passwordPath);
+let credentialProvider: CredentialProvider | null = null;
 
-  // Get both OTP secrets
-  const bitbucketOtpPath = `${onePasswordConfig.prefix}/otp`; // For Bitbucket 2FA
-  const atlassianOtpPath = `${onePasswordConfig.prefix}/one-time password`; // For Atlassian 2FA
+// Replaces the provider picked from the configuration, e.g. with an InMemoryCredentialProvider in tests
+export function setCredentialProvider(provider: CredentialProvider | null): void {
+  credentialProvider = provider;
+}
 
-  const bitbucket_otp_secret = await read.parse(bitbucketOtpPath);
-  const atlassian_otp_secret = await read.parse(atlassianOtpPath);
-  // Generate both OTP codes
-  const bitbucket_otp_code = generateTOTP(bitbucket_otp_secret);
-  const atlassian_otp_code = generateTOTP(atlassian_otp_secret);
+export function getCredentialProvider(): CredentialProvider {
+  if (!credentialProvider) {
+    credentialProvider = createCredentialProvider(getConfig());
+  }
+  return credentialProvider;
+}
 
-  if (!username || !password || !bitbucket_otp_code || !atlassian_otp_code) {
-    throw new Error('BITBUCKET_USERNAME, BITBUCKET_PASSWORD, and both OTP codes are required');
+// Precedence: an explicit credentialsProvider, then a credentials file, then 1Password
+// (ONEPASSWORD_PREFIX), then BITBUCKET_USERNAME/BITBUCKET_PASSWORD, then prompting on a terminal
+export function createCredentialProvider(config: Config): CredentialProvider {
+  switch (config.credentialsProvider) {
+    case '1password':
+      return new OnePasswordCredentialProvider(getOnePasswordConfig().prefix);
+    case 'env':
+      return new EnvCredentialProvider();
+    case 'file':
+      if (!config.credentialsFile) {
+        throw new Error('CREDENTIALS_FILE is required for the file credential provider');
+      }
+      return new FileCredentialProvider(config.credentialsFile);
+    case 'prompt':
+      return new PromptCredentialProvider();
+    case undefined:
+      break;
+    default:
+      throw new Error(`Unknown credential provider: ${config.credentialsProvider}`);
+  }
+
+  if (config.credentialsFile) {
+    return new FileCredentialProvider(config.credentialsFile);
+  }
+  if (process.env.ONEPASSWORD_PREFIX) {
+    return new OnePasswordCredentialProvider(process.env.ONEPASSWORD_PREFIX);
+  }
+  if (process.env.BITBUCKET_USERNAME && process.env.BITBUCKET_PASSWORD) {
+    return new EnvCredentialProvider();
+  }
+  if (process.stdin.isTTY) {
+    return new PromptCredentialProvider();
   }
+  throw new Error('No credentials configured: set CREDENTIALS_PROVIDER, CREDENTIALS_FILE, ONEPASSWORD_PREFIX, or BITBUCKET_USERNAME and BITBUCKET_PASSWORD');
+}
+
+// Data Center instances pass their own URL as the fallback
+export function getBitbucketBaseUrl(fallback: string = 'https://bitbucket.org'): string {
+  return process.env.BITBUCKET_BASE_URL || fallback;
+}
+
+export async function getBitbucketAuth(baseUrl: string = getBitbucketBaseUrl()): Promise<BitbucketAuth> {
+  const provider = getCredentialProvider();
+  const { username, password } = await provider.getCredentials();
 
   return {
     username,
     password,
-    bitbucketOtp: bitbucket_otp_code,
-    atlassianOtp: atlassian_otp_code,
+    // OTP codes expire within seconds, so they are only generated once the login form asks for them
+    getOtp: (kind, options) => provider.getOtp(kind, options),
     baseUrl
   };
 }
 
 export async function getBitbucketConfig(): Promise<BitbucketConfig> {
-  const onePasswordConfig = getOnePasswordConfig();
-  const usernamePath = `${onePasswordConfig.prefix}/username`;
-  const passwordPath = `${onePasswordConfig.prefix}/password`;
-  const baseUrl = process.env.BITBUCKET_BASE_URL || 'https://bitbucket.org';
-
-  const username = await read.parse(usernamePath);
-  const password = await read.parse(passwordPath);
-
-  if (!username || !password) {
-    throw new Error('BITBUCKET_USERNAME and BITBUCKET_PASSWORD environment variables are required');
-  }
+  const { username, password } = await getCredentialProvider().getCredentials();
 
   const config: BitbucketConfig = {
-    username: username.toString(),
-    password: password.toString(),
-    baseUrl
+    username,
+    password,
+    baseUrl: getBitbucketBaseUrl()
   };
 
   return config;
 }
 
-// Fixed: Handle both otpauth:// URLs and raw base32 secrets
-export const generateTOTP = (secret_input: string, timestamp: number = Date.now()) => {
-  try {
-
-    let secret_string: string;
-
-    // Check if input is an otpauth:// URL
-    if (secret_input.startsWith('otpauth://')) {
-      const url = new URL(secret_input);
-      const secretParam = url.searchParams.get('secret');
-
-      if (!secretParam) {
-        throw new Error('No secret parameter found in otpauth URL');
-      }
-
-      secret_string = secretParam;
-    } else {
-      // Assume it's a raw base32 secret
-      secret_string = secret_input;
+// BITBUCKET_TOKEN, or BITBUCKET_USERNAME and BITBUCKET_APP_PASSWORD, or else the login of the credential provider.
+// Bitbucket Cloud's API doesn't take account passwords, so a provider used with Cloud has to hold an app password.
+export async function getBitbucketApiAuth(): Promise<BitbucketApiAuth> {
+  const token = process.env.BITBUCKET_TOKEN;
+  const username = process.env.BITBUCKET_USERNAME;
+  const password = process.env.BITBUCKET_APP_PASSWORD;
+  const apiUrl = process.env.BITBUCKET_API_URL;
+
+  const auth: BitbucketApiAuth = {};
+  if (apiUrl) auth.apiUrl = apiUrl.replace(/\/+$/, '');
+
+  if (token) {
+    auth.token = token;
+  } else if (username && password) {
+    auth.username = username;
+    auth.password = password;
+  } else {
+    let provider: CredentialProvider;
+    try {
+      provider = getCredentialProvider();
+    } catch (error) {
+      throw new Error(`BITBUCKET_TOKEN, BITBUCKET_USERNAME and BITBUCKET_APP_PASSWORD, or a credential provider are required for the API: ${(error as Error).message}`, { cause: error });
     }
-
-    // Check if we got a path instead of a secret
-    if (secret_string?.includes('op://')) {
-      throw new Error('Received 1Password path instead of secret value. Check your read.parse() call.');
-    }
-
-    // Clean the secret - remove any whitespace and convert to uppercase
-    const cleanSecret = secret_string?.trim().toUpperCase().replace(/\s/g, '');
-
-    if (!cleanSecret || cleanSecret.length === 0) {
-      throw new Error('Empty or invalid secret provided');
-    }
-
-    const secret = OTPAuth.Secret.fromBase32(cleanSecret);
-
-    const totp = new OTPAuth.TOTP({
-      issuer: "Bitbucket",
-      label: "Bitbucket Account",
-      algorithm: 'SHA1',
-      digits: 6,
-      period: 30,
-      secret,
-    });
-
-    // Generate with current time if no timestamp provided
-    return totp.generate({ timestamp });
-  } catch (error) {
-    console.error('Error generating TOTP:', error);
-    console.error('Input that caused error:', secret_input);
-    throw new Error('Failed to generate TOTP code from secret');
+    const credentials = await provider.getCredentials();
+    auth.username = credentials.username;
+    auth.password = credentials.password;
   }
-};
+
+  return auth;
+}
 
 export function getOnePasswordConfig(): OnePasswordConfig {
   const prefix = process.env.ONEPASSWORD_PREFIX;
@@ -0,0 +1,181 @@
+import dotenv from 'dotenv';
+import { read } from "@1password/op-js";
+import { readFileSync } from 'node:fs';
+import readline from 'node:readline/promises';
+import { Writable } from 'node:stream';
+import { generateFreshTOTP } from './totp.js';
+
+export type CredentialProviderName = '1password' | 'env' | 'file' | 'prompt' | 'memory';
+
+export const CREDENTIAL_PROVIDERS: readonly CredentialProviderName[] = ['1password', 'env', 'file', 'prompt'];
+
+// Which 2FA prompt a code is for
+export type OtpKind = 'bitbucket' | 'atlassian';
+
+export interface OtpOptions {
+  retry?: boolean | undefined; // The previous code was rejected, so a different one is needed
+  rejectedAt?: number | undefined; // When it was rejected; codes of the same retry share this, so they only wait for the next window once
+}
+
+export interface Credentials {
+  username: string;
+  password: string;
+}
+
+export interface CredentialProvider {
+  readonly name: CredentialProviderName;
+  getCredentials(): Promise<Credentials>;
+  // Returns a one-time password for the given 2FA prompt, meant to be entered right away
+  getOtp(kind: OtpKind, options?: OtpOptions): Promise<string>;
+}
+
+// Providers that store TOTP secrets and generate the codes themselves
+abstract class SecretCredentialProvider implements CredentialProvider {
+  abstract readonly name: CredentialProviderName;
+  abstract getCredentials(): Promise<Credentials>;
+  protected abstract getOtpSecret(kind: OtpKind): Promise<string | undefined>;
+
+  async getOtp(kind: OtpKind, options: OtpOptions = {}): Promise<string> {
+    const secret = await this.getOtpSecret(kind);
+    if (!secret) {
+      throw new Error(`No ${kind} OTP secret available from the ${this.name} credential provider`);
+    }
+    // A rejected code would be generated again until the window changes
+    return generateFreshTOTP(secret, { after: options.retry ? options.rejectedAt ?? Date.now() : undefined });
+  }
+}
+
+// Reads op://<prefix>/username, /password, /otp (Bitbucket) and /one-time password (Atlassian)
+export class OnePasswordCredentialProvider extends SecretCredentialProvider {
+  readonly name = '1password';
+  private prefix: string;
+
+  constructor(prefix: string) {
+    super();
+    this.prefix = prefix;
+  }
+
+  async getCredentials(): Promise<Credentials> {
+    const username = await read.parse(`${this.prefix}/username`);
+    const password = await read.parse(`${this.prefix}/password`);
+    return requireCredentials(this.name, username, password);
+  }
+
+  protected async getOtpSecret(kind: OtpKind): Promise<string | undefined> {
+    const field = kind === 'bitbucket' ? 'otp' : 'one-time password';
+    return await read.parse(`${this.prefix}/${field}`);
+  }
+}
+
+// Reads BITBUCKET_USERNAME, BITBUCKET_PASSWORD, BITBUCKET_OTP_SECRET and ATLASSIAN_OTP_SECRET
+export class EnvCredentialProvider extends SecretCredentialProvider {
+  readonly name: CredentialProviderName = 'env';
+  protected values: Record<string, string | undefined>;
+
+  constructor(values: Record<string, string | undefined> = process.env) {
+    super();
+    this.values = values;
+  }
+
+  async getCredentials(): Promise<Credentials> {
+    return requireCredentials(this.name, this.values.BITBUCKET_USERNAME, this.values.BITBUCKET_PASSWORD);
+  }
+
+  protected async getOtpSecret(kind: OtpKind): Promise<string | undefined> {
+    return kind === 'bitbucket' ? this.values.BITBUCKET_OTP_SECRET : this.values.ATLASSIAN_OTP_SECRET;
+  }
+}
+
+// A secrets file: JSON ({ "username", "password", "bitbucketOtpSecret", "atlassianOtpSecret" })
+// or dotenv format using the same variable names as EnvCredentialProvider
+export class FileCredentialProvider extends EnvCredentialProvider {
+  readonly name = 'file';
+
+  constructor(filePath: string) {
+    const content = readFileSync(filePath, 'utf8');
+    super(filePath.endsWith('.json') ? fromJsonSecrets(content) : dotenv.parse(content));
+  }
+}
+
+// Asks on the terminal; OTP codes are asked for each time they're needed
+export class PromptCredentialProvider implements CredentialProvider {
+  readonly name = 'prompt';
+  private credentials: Credentials | null = null;
+
+  async getCredentials(): Promise<Credentials> {
+    if (!this.credentials) {
+      const username = await prompt('Bitbucket username: ');
+      const password = await prompt('Bitbucket password: ', { hidden: true });
+      this.credentials = requireCredentials(this.name, username, password);
+    }
+    return this.credentials;
+  }
+
+  async getOtp(kind: OtpKind, options: OtpOptions = {}): Promise<string> {
+    const label = kind === 'bitbucket' ? 'Bitbucket' : 'Atlassian';
+    const question = options.retry ? `Code rejected, new ${label} verification code: ` : `${label} verification code: `;
+    return (await prompt(question)).trim();
+  }
+}
+
+// Fixed credentials and codes, for tests
+export class InMemoryCredentialProvider implements CredentialProvider {
+  readonly name = 'memory';
+  private credentials: Credentials;
+  private otps: Partial<Record<OtpKind, string>>;
+
+  constructor(credentials: Credentials, otps: Partial<Record<OtpKind, string>> = {}) {
+    this.credentials = credentials;
+    this.otps = otps;
+  }
+
+  async getCredentials(): Promise<Credentials> {
+    return this.credentials;
+  }
+
+  async getOtp(kind: OtpKind): Promise<string> {
+    const otp = this.otps[kind];
+    if (!otp) {
+      throw new Error(`No ${kind} OTP configured`);
+    }
+    return otp;
+  }
+}
+
+function requireCredentials(provider: CredentialProviderName, username: string | undefined, password: string | undefined): Credentials {
+  if (!username || !password) {
+    throw new Error(`A username and password are required (credential provider: ${provider})`);
+  }
+  return { username: username.toString(), password: password.toString() };
+}
+
+function fromJsonSecrets(content: string): Record<string, string | undefined> {
+  const secrets = JSON.parse(content) as Record<string, string | undefined>;
+  return {
+    BITBUCKET_USERNAME: secrets.username,
+    BITBUCKET_PASSWORD: secrets.password,
+    BITBUCKET_OTP_SECRET: secrets.bitbucketOtpSecret,
+    ATLASSIAN_OTP_SECRET: secrets.atlassianOtpSecret
+  };
+}
+
+// Prompts on stderr so stdout stays usable for results
+async function prompt(question: string, options: { hidden?: boolean } = {}): Promise<string> {
+  // Hidden answers go through an output that drops readline's echo of what is typed
+  const output = options.hidden
+    ? new Writable({ write: (_chunk, _encoding, callback) => callback() })
+    : process.stderr;
+  const rl = readline.createInterface({ input: process.stdin, output, terminal: true });
+  if (options.hidden) {
+    process.stderr.write(question);
+  }
+
+  try {
+    return await rl.question(options.hidden ? '' : question);
+  } finally {
+    rl.close();
+    if (options.hidden) {
+      process.stderr.write('\n');
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import { errors as playwrightErrors } from 'playwright';
+import { GitError } from './git.js';
+
+export type ErrorClass =
+  | 'AuthError'
+  | 'NavigationTimeout'
+  | 'SelectorNotFound'
+  | 'CloneAuthError'
+  | 'NetworkError'
+  | 'BranchNotFound'
+  | 'UnknownError';
+
+// Base class of the classified errors; transient ones are worth retrying
+export class ScraperError extends Error {
+  readonly errorClass: ErrorClass = 'UnknownError';
+  readonly transient: boolean = false;
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+  }
+}
+
+// Login failed or the credentials/token were rejected
+export class AuthError extends ScraperError {
+  override readonly errorClass = 'AuthError';
+  override readonly name = 'AuthError';
+}
+
+// A page didn't finish loading in time
+export class NavigationTimeout extends ScraperError {
+  override readonly errorClass = 'NavigationTimeout';
+  override readonly name = 'NavigationTimeout';
+  override readonly transient = true;
+}
+
+// An element the scraper relies on isn't on the page
+export class SelectorNotFound extends ScraperError {
+  override readonly errorClass = 'SelectorNotFound';
+  override readonly name = 'SelectorNotFound';
+}
+
+// git couldn't authenticate against the remote
+export class CloneAuthError extends ScraperError {
+  override readonly errorClass = 'CloneAuthError';
+  override readonly name = 'CloneAuthError';
+}
+
+// Connection problems, timeouts and server errors
+export class NetworkError extends ScraperError {
+  override readonly errorClass = 'NetworkError';
+  override readonly name = 'NetworkError';
+  override readonly transient = true;
+}
+
+// The requested branch doesn't exist on the remote
+export class BranchNotFound extends ScraperError {
+  override readonly errorClass = 'BranchNotFound';
+  override readonly name = 'BranchNotFound';
+}
+
+const CLONE_AUTH_PATTERNS = [
+  /authentication failed/i,
+  /permission denied \(publickey/i,
+  /could not read (username|password)/i,
+  /terminal prompts disabled/i,
+  /the requested url returned error: 40[13]/i,
+  /host key verification failed/i
+];
+
+const NETWORK_PATTERNS = [
+  /could not resolve host/i,
+  /failed to connect to/i,
+  /couldn't connect to server/i,
+  /connection (timed out|refused|reset)/i,
+  /operation timed out/i,
+  /early eof/i,
+  /rpc failed/i,
+  /the remote end hung up unexpectedly/i,
+  /the requested url returned error: (429|5\d\d)/i,
+  /network is unreachable/i
+];
+
+const BRANCH_NOT_FOUND_PATTERNS = [/remote branch .* not found/i, /couldn't find remote ref/i];
+
+// Maps errors from git, Playwright and fetch onto the classes above
+export function classifyError(error: unknown): ScraperError {
+  if (error instanceof ScraperError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof GitError) {
+    if (error.cancelled) {
+      return new ScraperError(message, { cause: error });
+    }
+    if (error.timedOut) {
+      return new NetworkError(message, { cause: error });
+    }
+    const output = `${error.stderr}\n${error.stdout}`;
+    if (BRANCH_NOT_FOUND_PATTERNS.some(pattern => pattern.test(output))) {
+      return new BranchNotFound(message, { cause: error });
+    }
+    if (CLONE_AUTH_PATTERNS.some(pattern => pattern.test(output))) {
+      return new CloneAuthError(message, { cause: error });
+    }
+    if (NETWORK_PATTERNS.some(pattern => pattern.test(output))) {
+      return new NetworkError(message, { cause: error });
+    }
+    return new ScraperError(message, { cause: error });
+  }
+
+  if (error instanceof playwrightErrors.TimeoutError) {
+    // Timeouts while loading a page, as opposed to waiting for an element
+    if (/page\.(goto|waitForLoadState|waitForURL|waitForNavigation)/.test(message)) {
+      return new NavigationTimeout(message, { cause: error });
+    }
+    return new SelectorNotFound(message, { cause: error });
+  }
+
+  // fetch() rejects with "fetch failed" when the connection fails
+  if (error instanceof TypeError && message === 'fetch failed') {
+    return new NetworkError(message, { cause: error });
+  }
+  if (/net::ERR_/.test(message)) {
+    return new NetworkError(message, { cause: error });
+  }
+
+  return new ScraperError(message, { cause: error });
+}
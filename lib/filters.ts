@@ -0,0 +1,146 @@
+import { Logger } from './logger.js';
+import { SearchResult } from './search.js';
+
+export interface SearchFilters {
+  repos?: string[] | undefined; // <repo> or <workspace>/<repo>
+  projects?: string[] | undefined; // Project keys
+  languages?: string[] | undefined; // e.g. javascript, python
+  extensions?: string[] | undefined; // With or without the leading dot
+  paths?: string[] | undefined; // Directory prefixes or globs
+  excludeRepos?: string[] | undefined; // Globs matched against <repo> and <workspace>/<repo>
+  includeArchived?: boolean | undefined; // Keep results from archived repositories
+}
+
+// File extensions of the languages accepted by lang:, used to filter results locally
+const LANGUAGE_EXTENSIONS: Record<string, string[]> = {
+  c: ['c', 'h'],
+  cpp: ['cpp', 'cc', 'cxx', 'hpp', 'hh', 'hxx'],
+  csharp: ['cs'],
+  css: ['css', 'scss', 'less'],
+  go: ['go'],
+  groovy: ['groovy', 'gradle'],
+  html: ['html', 'htm'],
+  java: ['java'],
+  javascript: ['js', 'jsx', 'mjs', 'cjs'],
+  json: ['json'],
+  kotlin: ['kt', 'kts'],
+  markdown: ['md', 'markdown'],
+  php: ['php'],
+  python: ['py'],
+  ruby: ['rb'],
+  rust: ['rs'],
+  scala: ['scala'],
+  shell: ['sh', 'bash', 'zsh'],
+  sql: ['sql'],
+  swift: ['swift'],
+  typescript: ['ts', 'tsx', 'mts', 'cts'],
+  xml: ['xml'],
+  yaml: ['yml', 'yaml']
+};
+
+// Adds repo:, project:, lang:, ext: and path: modifiers to the search term.
+// Bitbucket takes one value per modifier, so filters with several values are only applied locally.
+export function buildSearchQuery(searchTerm: string, filters: SearchFilters): string {
+  const modifiers: Array<[string, string[] | undefined]> = [
+    ['repo', filters.repos],
+    ['project', filters.projects],
+    ['lang', filters.languages],
+    ['ext', filters.extensions?.map(normalizeExtension)],
+    ['path', filters.paths]
+  ];
+
+  const query = [searchTerm];
+  for (const [modifier, values] of modifiers) {
+    if (values?.length === 1) {
+      query.push(`${modifier}:${values[0]}`);
+    }
+  }
+  return query.join(' ');
+}
+
+// Applies the filters to the results, as not every backend understands every modifier
+export function filterResults(results: SearchResult[], filters: SearchFilters, logger?: Logger): SearchResult[] {
+  const filtered = results.filter(result => matchesFilters(result, filters));
+  if (filtered.length !== results.length) {
+    logger?.debug(`Filtered out ${results.length - filtered.length} of ${results.length} matching file(s)`);
+  }
+  return filtered;
+}
+
+function matchesFilters(result: SearchResult, filters: SearchFilters): boolean {
+  const names = [result.repoSlug, `${result.workspace}/${result.repoSlug}`].map(name => name.toLowerCase());
+
+  if (result.archived && !filters.includeArchived) {
+    return false;
+  }
+  if (filters.repos?.length && !filters.repos.some(repo => names.includes(repo.toLowerCase()))) {
+    return false;
+  }
+  // Cloud results don't carry the project, so they can only be filtered by the search itself
+  if (filters.projects?.length && result.project
+    && !filters.projects.some(project => project.toLowerCase() === result.project?.toLowerCase())) {
+    return false;
+  }
+  if (filters.excludeRepos?.some(pattern => names.some(name => globToRegExp(pattern.toLowerCase()).test(name)))) {
+    return false;
+  }
+
+  const extension = getExtension(result.filePath);
+  if (filters.extensions?.length && !filters.extensions.map(normalizeExtension).includes(extension)) {
+    return false;
+  }
+  if (filters.languages?.length) {
+    const known = filters.languages.map(language => LANGUAGE_EXTENSIONS[language.toLowerCase()]);
+    // Unknown languages are left to the search backend
+    if (known.every(Boolean) && !known.some(extensions => extensions?.includes(extension))) {
+      return false;
+    }
+  }
+  if (filters.paths?.length && !filters.paths.some(filterPath => matchesPath(result.filePath, filterPath))) {
+    return false;
+  }
+
+  return true;
+}
+
+function normalizeExtension(extension: string): string {
+  return extension.replace(/^\./, '').toLowerCase();
+}
+
+function getExtension(filePath: string): string {
+  const fileName = filePath.split('/').pop() || '';
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(dot + 1).toLowerCase() : '';
+}
+
+// "src/api" matches files below that directory anywhere in the repository; globs match the whole path
+function matchesPath(filePath: string, filterPath: string): boolean {
+  const normalizedFile = filePath.replace(/^\/+/, '');
+  const normalizedFilter = filterPath.replace(/^\/+|\/+$/g, '');
+  if (!normalizedFilter) {
+    return true;
+  }
+  if (/[*?]/.test(normalizedFilter)) {
+    return globToRegExp(normalizedFilter).test(normalizedFile);
+  }
+  return normalizedFile.startsWith(`${normalizedFilter}/`) || normalizedFile.includes(`/${normalizedFilter}/`);
+}
+
+// * matches within a path segment, ** across segments, ? a single character
+function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index] as string;
+    if (char === '*' && glob[index + 1] === '*') {
+      pattern += '.*';
+      index++;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
@@ -0,0 +1,135 @@
+import { ChildProcess, spawn } from 'node:child_process';
+
+const DEFAULT_TIMEOUT = 10 * 60 * 1000;
+
+export interface GitOptions {
+  cwd?: string | undefined;
+  timeout?: number | undefined; // Milliseconds before git is killed (0 disables)
+  signal?: AbortSignal | undefined; // Cancels the command
+  env?: NodeJS.ProcessEnv | undefined; // Extra environment variables
+  raw?: boolean | undefined; // Keep stdout as git wrote it, for output where leading whitespace matters
+}
+
+export interface GitResult {
+  stdout: string;
+  stderr: string;
+}
+
+export class GitError extends Error {
+  args: string[];
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  cancelled: boolean;
+
+  constructor(message: string, details: { args: string[]; exitCode: number | null; stdout: string; stderr: string; timedOut?: boolean; cancelled?: boolean }) {
+    super(message);
+    this.name = 'GitError';
+    this.args = details.args;
+    this.exitCode = details.exitCode;
+    this.stdout = details.stdout;
+    this.stderr = details.stderr;
+    this.timedOut = details.timedOut ?? false;
+    this.cancelled = details.cancelled ?? false;
+  }
+}
+
+// Runs git with an argument array (no shell), resolving with its trimmed output (unless raw)
+export function runGit(args: string[], options: GitOptions = {}): Promise<GitResult> {
+  return new Promise<GitResult>((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(new GitError(`git ${getSubcommand(args)} was cancelled`, { args, exitCode: null, stdout: '', stderr: '', cancelled: true }));
+      return;
+    }
+
+    const child = spawn('git', args, {
+      cwd: options.cwd,
+      // Never block on a credential prompt
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0', ...options.env },
+      stdio: ['ignore', 'pipe', 'pipe'],
+      // Its own process group, so stopping it also stops helpers like git-remote-http that hold on to its output
+      detached: true
+    });
+
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    let cancelled = false;
+    child.stdout.on('data', chunk => { stdout += chunk; });
+    child.stderr.on('data', chunk => { stderr += chunk; });
+
+    const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    const timer = timeout > 0
+      ? setTimeout(() => {
+        timedOut = true;
+        killProcessGroup(child);
+      }, timeout)
+      : undefined;
+
+    const onAbort = () => {
+      cancelled = true;
+      killProcessGroup(child);
+    };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    const cleanup = () => {
+      if (timer) clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+    };
+
+    child.on('error', error => {
+      cleanup();
+      reject(new GitError(`Failed to run git: ${error.message}`, { args, exitCode: null, stdout, stderr }));
+    });
+
+    child.on('close', exitCode => {
+      cleanup();
+      if (exitCode === 0 && !timedOut && !cancelled) {
+        resolve({ stdout: options.raw ? stdout : stdout.trim(), stderr: stderr.trim() });
+        return;
+      }
+
+      const subcommand = getSubcommand(args);
+      let message: string;
+      if (timedOut) {
+        message = `git ${subcommand} timed out after ${timeout}ms`;
+      } else if (cancelled) {
+        message = `git ${subcommand} was cancelled`;
+      } else {
+        message = `git ${subcommand} failed with exit code ${exitCode}: ${stderr.trim() || stdout.trim()}`;
+      }
+      reject(new GitError(message, { args, exitCode, stdout: stdout.trim(), stderr: stderr.trim(), timedOut, cancelled }));
+    });
+  });
+}
+
+// The first argument after the global options, e.g. "clone" for ["-c", "http.proxy=...", "clone", ...]
+function getSubcommand(args: string[]): string {
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index]!;
+    if (arg === '-c' || arg === '-C') {
+      index++;
+    } else if (!arg.startsWith('-')) {
+      return arg;
+    }
+  }
+  return args[0] || '';
+}
+
+// For children spawned with detached: true, which lead their own process group
+export function killProcessGroup(child: ChildProcess): void {
+  try {
+    // A negative pid signals the whole process group
+    process.kill(-child.pid!, 'SIGTERM');
+  } catch {
+    // The group is already gone, or the process never started
+    child.kill('SIGTERM');
+  }
+}
+
+// Convenience wrapper returning only stdout
+export async function git(args: string[], options: GitOptions = {}): Promise<string> {
+  const { stdout } = await runGit(args, options);
+  return stdout;
+}
@@ -0,0 +1,134 @@
+import { spawn } from 'node:child_process';
+import { killProcessGroup } from './git.js';
+import { Logger } from './logger.js';
+
+// Only the end of long outputs is kept in the summary
+const MAX_OUTPUT_LENGTH = 16 * 1024;
+
+// A shell command run inside each cloned repository
+export interface HookStep {
+  name: string;
+  run: string;
+  timeout?: number | undefined; // Milliseconds before the command is killed (0 or unset for no limit)
+}
+
+// The repository a pipeline runs for, passed to the commands as REPO_* variables
+export interface HookContext {
+  repoName: string;
+  workspace: string;
+  cloneUrl: string;
+  branch: string | null; // Checked out branch
+  localPath: string;
+  files: string[]; // Matched file paths, relative to the repository
+}
+
+export interface HookResult {
+  name: string;
+  exitCode: number | null; // null when the command was killed or couldn't start
+  output: string; // Combined stdout and stderr
+  durationMs: number;
+}
+
+export interface HookOptions {
+  timeout?: number | undefined; // Default timeout of steps without their own
+  signal?: AbortSignal | undefined; // Stops the running command
+}
+
+// Each --exec command becomes a step named after the command
+export function createHookSteps(commands: string[]): HookStep[] {
+  return commands.map(command => ({ name: command, run: command }));
+}
+
+export function getHookEnv(context: HookContext): NodeJS.ProcessEnv {
+  return {
+    REPO_NAME: context.repoName,
+    REPO_WORKSPACE: context.workspace,
+    REPO_CLONE_URL: context.cloneUrl,
+    REPO_BRANCH: context.branch || '',
+    REPO_PATH: context.localPath,
+    // One path per line
+    REPO_FILES: context.files.join('\n')
+  };
+}
+
+// Runs the steps in order inside the repository; the first failing step ends the pipeline
+export async function runHooks(steps: HookStep[], context: HookContext, options: HookOptions = {}, logger?: Logger): Promise<HookResult[]> {
+  const results: HookResult[] = [];
+  const env = getHookEnv(context);
+
+  for (const step of steps) {
+    logger?.hookStarted(context.repoName, step.name);
+    const result = await runStep(step, context.localPath, env, options);
+    results.push(result);
+
+    if (result.exitCode !== 0) {
+      logger?.hookFailed(context.repoName, step.name, result.exitCode, result.output);
+      break;
+    }
+    logger?.debug(result.output, { repoName: context.repoName, step: step.name });
+  }
+  return results;
+}
+
+export function hooksFailed(results: HookResult[]): boolean {
+  return results.some(result => result.exitCode !== 0);
+}
+
+function runStep(step: HookStep, cwd: string, env: NodeJS.ProcessEnv, options: HookOptions): Promise<HookResult> {
+  const startedAt = Date.now();
+  const finish = (exitCode: number | null, output: string): HookResult => ({
+    name: step.name,
+    exitCode,
+    output: output.trim().slice(-MAX_OUTPUT_LENGTH),
+    durationMs: Date.now() - startedAt
+  });
+
+  return new Promise<HookResult>(resolve => {
+    if (options.signal?.aborted) {
+      resolve(finish(null, 'Cancelled'));
+      return;
+    }
+
+    const child = spawn(step.run, {
+      cwd,
+      shell: true,
+      env: { ...process.env, ...env },
+      stdio: ['ignore', 'pipe', 'pipe'],
+      // Its own process group, so stopping it also stops what the shell started
+      detached: true
+    });
+
+    let output = '';
+    child.stdout.on('data', chunk => { output += chunk; });
+    child.stderr.on('data', chunk => { output += chunk; });
+
+    const timeout = step.timeout ?? options.timeout ?? 0;
+    const timer = timeout > 0
+      ? setTimeout(() => {
+        output += `\nKilled after ${timeout}ms`;
+        killProcessGroup(child);
+      }, timeout)
+      : undefined;
+
+    const onAbort = () => {
+      output += '\nCancelled';
+      killProcessGroup(child);
+    };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    const cleanup = () => {
+      if (timer) clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+    };
+
+    child.on('error', error => {
+      cleanup();
+      resolve(finish(null, `Failed to run ${step.run}: ${error.message}`));
+    });
+
+    child.on('close', exitCode => {
+      cleanup();
+      resolve(finish(exitCode, output));
+    });
+  });
+}
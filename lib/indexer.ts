@@ -0,0 +1,261 @@
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { classifyError } from './errors.js';
+import { git, GitOptions } from './git.js';
+import { LocalClone } from './local.js';
+import { Logger } from './logger.js';
+import { runPool } from './pool.js';
+import { parseChangedFiles } from './publish.js';
+import { getCloneUrlProtocol } from './repository.js';
+import { SearchResult } from './search.js';
+
+// Written to the clone directory by the index command
+export const INDEX_FILE = '.search-index.json';
+
+const INDEX_VERSION = 1;
+
+// Larger files and binary files are only searchable by their path
+const MAX_FILE_SIZE = 1024 * 1024;
+
+// Matched lines kept per file, like the snippets of Bitbucket's search
+const MAX_SNIPPET_LINES = 5;
+
+// Identifiers and numbers; single characters are too common to be worth indexing
+const TOKEN_PATTERN = /[a-z0-9_$]{2,64}/g;
+
+// One clone, indexed at a commit
+export interface IndexedRepository {
+  repoName: string;
+  workspace: string;
+  project: string | null;
+  cloneUrl: string;
+  localPath: string; // Absolute, so the index works from any directory
+  commit: string; // HEAD when the repository was indexed
+  worktree: string; // Hash of the uncommitted changes then, as the index reads files from the working tree
+  files: string[]; // Tracked files, relative to the repository
+  tokens: Record<string, number[]>; // Token → positions in files, from file contents and paths
+}
+
+export interface SearchIndex {
+  version: number;
+  updatedAt: string;
+  repositories: IndexedRepository[];
+}
+
+export interface IndexOptions extends GitOptions {
+  concurrency?: number | undefined;
+  rebuild?: boolean | undefined; // Index every repository again, even at an unchanged commit
+}
+
+export interface IndexUpdate {
+  index: SearchIndex;
+  indexed: string[]; // Repositories (re)indexed because their commit or working tree changed
+  unchanged: number;
+  removed: number; // No longer on disk
+  failed: string[];
+}
+
+export interface IndexSearchOptions {
+  regex?: boolean | undefined; // Treat the term as a regular expression matched against paths and lines
+  query?: string | undefined; // Name of the query, recorded on the results
+}
+
+export function readIndex(indexFile: string): SearchIndex | null {
+  if (!existsSync(indexFile)) {
+    return null;
+  }
+
+  const index = JSON.parse(readFileSync(indexFile, 'utf8')) as SearchIndex;
+  if (index.version !== INDEX_VERSION || !Array.isArray(index.repositories)) {
+    throw new Error(`Unsupported search index: ${indexFile} (rebuild it with index --rebuild)`);
+  }
+  return index;
+}
+
+// Writes to a temporary file first so a crash mid-write can't leave a truncated index
+export function writeIndex(index: SearchIndex, indexFile: string): void {
+  const directory = path.dirname(indexFile);
+  if (!existsSync(directory)) {
+    mkdirSync(directory, { recursive: true });
+  }
+
+  index.updatedAt = new Date().toISOString();
+  const temporaryFile = `${indexFile}.tmp`;
+  writeFileSync(temporaryFile, JSON.stringify(index));
+  renameSync(temporaryFile, indexFile);
+}
+
+// Brings the index in line with the clones: repositories whose HEAD moved or whose local changes changed are indexed again,
+// unchanged ones are kept and those no longer on disk are dropped
+export async function updateIndex(index: SearchIndex | null, clones: LocalClone[], options: IndexOptions = {}, logger?: Logger): Promise<IndexUpdate> {
+  const existing = new Map((index?.repositories || []).map(repository => [repository.localPath, repository]));
+  const update: IndexUpdate = {
+    index: { version: INDEX_VERSION, updatedAt: new Date().toISOString(), repositories: [] },
+    indexed: [],
+    unchanged: 0,
+    removed: [...existing.keys()].filter(localPath => !clones.some(clone => path.resolve(clone.localPath) === localPath)).length,
+    failed: []
+  };
+
+  const repositories = await runPool(clones, options.concurrency ?? 1, async (clone): Promise<IndexedRepository | null> => {
+    const localPath = path.resolve(clone.localPath);
+    const gitOptions = { cwd: localPath, timeout: options.timeout, signal: options.signal };
+    try {
+      const commit = await git(['rev-parse', 'HEAD'], gitOptions);
+      const worktree = await getWorktreeState(localPath, gitOptions);
+      const previous = existing.get(localPath);
+      if (previous && previous.commit === commit && previous.worktree === worktree && !options.rebuild) {
+        update.unchanged++;
+        return previous;
+      }
+
+      const repository = await indexRepository({ ...clone, localPath }, commit, worktree, gitOptions);
+      logger?.repositoryIndexed(clone.repoName, repository.files.length, commit);
+      update.indexed.push(clone.repoName);
+      return repository;
+    } catch (error) {
+      const classified = classifyError(error);
+      logger?.indexError(clone.repoName, classified.message);
+      update.failed.push(clone.repoName);
+      // A repository that can't be read keeps its previous entry
+      return existing.get(localPath) || null;
+    }
+  });
+
+  update.index.repositories = repositories.filter((repository): repository is IndexedRepository => repository !== null);
+  return update;
+}
+
+// Files containing every token of the term, with the lines that contain any of them,
+// in the format of the remote search backends
+export function searchIndex(index: SearchIndex, term: string, options: IndexSearchOptions = {}): SearchResult[] {
+  const pattern = options.regex ? new RegExp(term, 'i') : null;
+  const terms = term.toLowerCase().split(/\s+/).filter(Boolean);
+  const tokens = pattern ? [] : tokenize(term);
+  const results: SearchResult[] = [];
+
+  for (const repository of index.repositories) {
+    for (const fileIndex of findCandidates(repository, tokens)) {
+      const filePath = repository.files[fileIndex]!;
+      const matchesLine = (line: string) => pattern ? pattern.test(line) : terms.some(word => line.toLowerCase().includes(word));
+      const lines = findLines(path.join(repository.localPath, filePath), matchesLine);
+      const pathMatches = pattern ? pattern.test(filePath) : terms.every(word => filePath.toLowerCase().includes(word));
+      if (!lines.length && !pathMatches) {
+        continue;
+      }
+
+      const protocol = getCloneUrlProtocol(repository.cloneUrl);
+      results.push({
+        workspace: repository.workspace,
+        project: repository.project ?? undefined,
+        repoSlug: repository.repoName,
+        filePath,
+        lines: lines.map(line => line.number),
+        snippet: lines.map(line => line.text.trim()).join('\n'),
+        cloneUrls: { [protocol]: repository.cloneUrl },
+        cloneUrl: repository.cloneUrl,
+        query: options.query
+      });
+    }
+  }
+  return results;
+}
+
+// Lower-cased, unique tokens, the same for indexed text and search terms
+export function tokenize(text: string): string[] {
+  return [...new Set(text.toLowerCase().match(TOKEN_PATTERN) || [])];
+}
+
+// The changed files with their size and modification time, so editing an already modified file counts as a change too
+async function getWorktreeState(localPath: string, options: GitOptions): Promise<string> {
+  const status = await git(['status', '--porcelain', '-z'], { ...options, raw: true });
+  const hash = createHash('sha1').update(status);
+  for (const filePath of parseChangedFiles(status)) {
+    try {
+      const stats = statSync(path.join(localPath, filePath));
+      hash.update(`\0${stats.size}:${stats.mtimeMs}`);
+    } catch {
+      // Deleted files are covered by the status
+    }
+  }
+  return hash.digest('hex');
+}
+
+async function indexRepository(clone: LocalClone, commit: string, worktree: string, options: GitOptions): Promise<IndexedRepository> {
+  const files = (await git(['ls-files', '-z'], options)).split('\0').filter(Boolean);
+  const postings = new Map<string, number[]>();
+
+  files.forEach((filePath, fileIndex) => {
+    const fileTokens = new Set([...tokenize(filePath), ...tokenize(readText(path.join(clone.localPath, filePath)))]);
+    for (const token of fileTokens) {
+      const positions = postings.get(token);
+      if (positions) {
+        positions.push(fileIndex);
+      } else {
+        postings.set(token, [fileIndex]);
+      }
+    }
+  });
+
+  return {
+    repoName: clone.repoName,
+    workspace: clone.workspace,
+    project: clone.entry?.repository.project ?? null,
+    cloneUrl: clone.cloneUrl,
+    localPath: clone.localPath,
+    commit,
+    worktree,
+    files,
+    tokens: Object.fromEntries(postings)
+  };
+}
+
+// Files holding every token; a token that was never indexed on its own matches as part of indexed tokens,
+// so "ajax" finds "$.ajaxSetup()" when nothing contains just "ajax".
+// Without tokens (e.g. a regular expression) every file is a candidate
+function findCandidates(repository: IndexedRepository, tokens: string[]): number[] {
+  if (tokens.length === 0) {
+    return repository.files.map((_, fileIndex) => fileIndex);
+  }
+
+  let postings: Array<[string, number[]]> | null = null;
+  let candidates: Set<number> | null = null;
+  for (const token of tokens) {
+    // Own properties only, so tokens like "constructor" don't hit Object.prototype
+    let positions = Object.hasOwn(repository.tokens, token) ? repository.tokens[token]! : null;
+    if (!positions) {
+      postings ??= Object.entries(repository.tokens);
+      positions = postings.filter(([key]) => key.includes(token)).flatMap(([, filePositions]) => filePositions);
+    }
+    candidates = new Set(candidates ? positions.filter(position => candidates!.has(position)) : positions);
+    if (candidates.size === 0) {
+      return [];
+    }
+  }
+  return [...(candidates || [])];
+}
+
+function findLines(filePath: string, matches: (line: string) => boolean): Array<{ number: number; text: string }> {
+  const lines: Array<{ number: number; text: string }> = [];
+  readText(filePath).split('\n').forEach((text, index) => {
+    if (lines.length < MAX_SNIPPET_LINES && matches(text)) {
+      lines.push({ number: index + 1, text });
+    }
+  });
+  return lines;
+}
+
+// The file's text, or nothing for missing, large and binary files
+function readText(filePath: string): string {
+  try {
+    if (statSync(filePath).size > MAX_FILE_SIZE) {
+      return '';
+    }
+    const content = readFileSync(filePath);
+    // Git's own heuristic: a NUL byte in the first 8000 bytes means binary
+    return content.subarray(0, 8000).includes(0) ? '' : content.toString('utf8');
+  } catch {
+    return '';
+  }
+}
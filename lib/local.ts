@@ -0,0 +1,214 @@
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import { findClones, getOriginUrl } from './clone.js';
+import { classifyError } from './errors.js';
+import { git, GitOptions } from './git.js';
+import { getEntryPath, MANIFEST_FILE, ManifestEntry, readManifest, RunManifest } from './manifest.js';
+import { parseCloneUrl } from './repository.js';
+
+// A clone on disk and the repository it was cloned from
+export interface LocalClone {
+  repoName: string;
+  workspace: string; // Cloud workspace, or project key on Data Center
+  cloneUrl: string;
+  localPath: string;
+  entry?: ManifestEntry | undefined; // Set for clones of a run manifest
+}
+
+// What `git status` and `git log` report for a clone
+export interface RepositoryStatus {
+  repoName: string;
+  localPath: string;
+  branch: string | null; // null when HEAD is detached
+  upstream: string | null;
+  ahead: number | null; // Commits not on the upstream yet; null without an upstream
+  behind: number | null; // Commits of the upstream not merged yet
+  dirty: boolean;
+  changedFiles: string[]; // Modified, staged and untracked files
+  lastCommit: string | null; // Abbreviated SHA of HEAD
+  lastCommitDate: string | null;
+  lastCommitSubject: string | null;
+  queries: string[]; // Searches the repository was cloned for, when it is in a run manifest
+  error: string | null;
+}
+
+export interface StatusOptions extends GitOptions {
+  fetch?: boolean | undefined; // Fetch from origin first so ahead/behind is current
+}
+
+// dirty/clean: local changes; ahead/behind/diverged/current: compared with the upstream
+export type StatusFilter = 'dirty' | 'clean' | 'ahead' | 'behind' | 'diverged' | 'current' | 'no-upstream' | 'detached';
+
+export const STATUS_FILTERS: readonly StatusFilter[] = ['dirty', 'clean', 'ahead', 'behind', 'diverged', 'current', 'no-upstream', 'detached'];
+
+type ParsedStatus = Pick<RepositoryStatus, 'branch' | 'upstream' | 'ahead' | 'behind' | 'dirty' | 'changedFiles'>;
+
+// Clones of the manifest's repositories that are on disk
+export function getManifestClones(manifest: RunManifest): LocalClone[] {
+  return manifest.repositories
+    .map(entry => ({
+      repoName: entry.repository.repoSlug,
+      workspace: entry.repository.workspace,
+      cloneUrl: entry.repository.cloneUrl,
+      localPath: getEntryPath(manifest, entry),
+      entry
+    }))
+    .filter(clone => existsSync(path.join(clone.localPath, '.git')));
+}
+
+// Every clone below the directory, identified by its origin URL.
+// Clones listed in the directory's run manifest are linked to their entry.
+export async function getDirectoryClones(directory: string): Promise<LocalClone[]> {
+  const entries = getManifestEntries(directory);
+  const clones: LocalClone[] = [];
+  for (const localPath of findClones(directory)) {
+    const cloneUrl = await getOriginUrl(localPath);
+    if (!cloneUrl) {
+      continue;
+    }
+    const repository = parseCloneUrl(cloneUrl);
+    clones.push({
+      repoName: repository?.slug || path.basename(localPath),
+      workspace: repository?.workspace || path.basename(path.dirname(localPath)),
+      cloneUrl,
+      localPath,
+      entry: entries.get(path.resolve(localPath))
+    });
+  }
+  return clones;
+}
+
+// Without fetching, ahead/behind is measured against the last fetched state of the upstream
+export async function getRepositoryStatus(clone: LocalClone, options: StatusOptions = {}): Promise<RepositoryStatus> {
+  const gitOptions = { timeout: options.timeout, signal: options.signal, cwd: clone.localPath };
+  const queries = clone.entry?.repository.queries || [];
+  // A failed fetch still reports the local state
+  let fetchError: string | null = null;
+  if (options.fetch) {
+    try {
+      await git(['fetch', '--prune', 'origin'], gitOptions);
+    } catch (error) {
+      fetchError = `Fetch failed: ${classifyError(error).message}`;
+    }
+  }
+
+  try {
+    const status = parseStatus(await git(['status', '--porcelain=v2', '--branch'], gitOptions));
+    const lastCommit = await getLastCommit(gitOptions);
+    return { repoName: clone.repoName, localPath: clone.localPath, ...status, ...lastCommit, queries, error: fetchError };
+  } catch (error) {
+    return {
+      repoName: clone.repoName,
+      localPath: clone.localPath,
+      branch: null,
+      upstream: null,
+      ahead: null,
+      behind: null,
+      dirty: false,
+      changedFiles: [],
+      lastCommit: null,
+      lastCommitDate: null,
+      lastCommitSubject: null,
+      queries,
+      error: classifyError(error).message
+    };
+  }
+}
+
+// A status matches when it meets every filter; repositories that failed to report never match
+export function matchesStatus(status: RepositoryStatus, filters: StatusFilter[]): boolean {
+  if (status.error && !status.error.startsWith('Fetch failed')) {
+    return filters.length === 0;
+  }
+  const ahead = status.ahead ?? 0;
+  const behind = status.behind ?? 0;
+  return filters.every(filter => {
+    switch (filter) {
+      case 'dirty':
+        return status.dirty;
+      case 'clean':
+        return !status.dirty;
+      case 'ahead':
+        return ahead > 0;
+      case 'behind':
+        return behind > 0;
+      case 'diverged':
+        return ahead > 0 && behind > 0;
+      case 'current':
+        return status.upstream !== null && ahead === 0 && behind === 0;
+      case 'no-upstream':
+        return status.upstream === null;
+      case 'detached':
+        return status.branch === null;
+    }
+  });
+}
+
+// Header lines start with "# branch.", every other line is a changed file
+export function parseStatus(output: string): ParsedStatus {
+  const status: ParsedStatus = {
+    branch: null,
+    upstream: null,
+    ahead: null,
+    behind: null,
+    dirty: false,
+    changedFiles: []
+  };
+
+  for (const line of output.split('\n').filter(Boolean)) {
+    const [marker, key, ...values] = line.split(' ');
+    if (marker !== '#') {
+      status.changedFiles.push(getChangedPath(line));
+    } else if (key === 'branch.head') {
+      status.branch = values[0] === '(detached)' ? null : values[0] ?? null;
+    } else if (key === 'branch.upstream') {
+      status.upstream = values[0] ?? null;
+    } else if (key === 'branch.ab') {
+      // "+<ahead> -<behind>"
+      status.ahead = Math.abs(Number(values[0]));
+      status.behind = Math.abs(Number(values[1]));
+    }
+  }
+  status.dirty = status.changedFiles.length > 0;
+  return status;
+}
+
+// The path is the last field: after 8 fields for changes, 9 for renames ("<path>\t<original>"), 10 for conflicts
+function getChangedPath(line: string): string {
+  const fields = line.split(' ');
+  switch (fields[0]) {
+    case '1':
+      return fields.slice(8).join(' ');
+    case '2':
+      return fields.slice(9).join(' ').split('\t')[0]!;
+    case 'u':
+      return fields.slice(10).join(' ');
+    default:
+      // "? <path>" for untracked and "! <path>" for ignored files
+      return line.slice(2);
+  }
+}
+
+async function getLastCommit(options: GitOptions): Promise<Pick<RepositoryStatus, 'lastCommit' | 'lastCommitDate' | 'lastCommitSubject'>> {
+  try {
+    const [sha = null, date = null, subject = null] = (await git(['log', '-1', '--format=%h%x00%cI%x00%s'], options)).split('\0');
+    return { lastCommit: sha, lastCommitDate: date, lastCommitSubject: subject };
+  } catch {
+    // A repository without commits
+    return { lastCommit: null, lastCommitDate: null, lastCommitSubject: null };
+  }
+}
+
+// Manifest entries by clone directory; a missing or unreadable manifest only loses the link to the search
+function getManifestEntries(directory: string): Map<string, ManifestEntry> {
+  const manifestFile = path.join(directory, MANIFEST_FILE);
+  if (!existsSync(manifestFile)) {
+    return new Map();
+  }
+  try {
+    const manifest = readManifest(manifestFile);
+    return new Map(manifest.repositories.map(entry => [path.resolve(getEntryPath(manifest, entry)), entry]));
+  } catch {
+    return new Map();
+  }
+}
@@ -16,15 +16,47 @@ export interface LoggerConfig {
   logDir?: string | undefined;
   logFile?: string | undefined;
   consoleOutput: boolean;
+  consoleStderr?: boolean; // Send console output to stderr, keeping stdout free for results
+}
+
+interface BufferedEntry {
+  level: LogLevel;
+  message: string;
+  meta?: any;
 }
 
 export class Logger {
   private logger: winston.Logger;
   private config: LoggerConfig;
+  private buffer: BufferedEntry[] | null = null;
 
-  constructor(config: LoggerConfig) {
+  constructor(config: LoggerConfig, logger?: winston.Logger) {
     this.config = config;
-    this.logger = this.createLogger();
+    this.logger = logger || this.createLogger();
+  }
+
+  // Returns a logger sharing this logger's transports that holds its messages
+  // until flush(), so concurrent work can be logged as one uninterrupted block
+  buffered(): Logger {
+    const logger = new Logger(this.config, this.logger);
+    logger.buffer = [];
+    return logger;
+  }
+
+  flush(): void {
+    if (!this.buffer) return;
+    for (const entry of this.buffer) {
+      this.logger.log(entry.level, entry.message, entry.meta);
+    }
+    this.buffer = [];
+  }
+
+  private write(level: LogLevel, message: string, meta?: any): void {
+    if (this.buffer) {
+      this.buffer.push({ level, message, meta });
+    } else {
+      this.logger.log(level, message, meta);
+    }
   }
 
   private createLogger(): winston.Logger {
@@ -34,6 +66,7 @@ export class Logger {
     if (this.config.consoleOutput) {
       transports.push(
         new winston.transports.Console({
+          stderrLevels: this.config.consoleStderr ? Object.values(LogLevel) : [],
           format: winston.format.combine(
             winston.format.colorize(),
             winston.format.timestamp({ format: 'YYYY-MM-DD HH:mm:ss' }),
@@ -97,23 +130,23 @@ export class Logger {
 
   // Logging methods
   error(message: string, meta?: any): void {
-    this.logger.error(message, meta);
+    this.write(LogLevel.ERROR, message, meta);
   }
 
   warn(message: string, meta?: any): void {
-    this.logger.warn(message, meta);
+    this.write(LogLevel.WARN, message, meta);
   }
 
   info(message: string, meta?: any): void {
-    this.logger.info(message, meta);
+    this.write(LogLevel.INFO, message, meta);
   }
 
   debug(message: string, meta?: any): void {
-    this.logger.debug(message, meta);
+    this.write(LogLevel.DEBUG, message, meta);
   }
 
   verbose(message: string, meta?: any): void {
-    this.logger.verbose(message, meta);
+    this.write(LogLevel.VERBOSE, message, meta);
   }
 
   // Special methods for the scraper
@@ -129,6 +162,29 @@ export class Logger {
     this.info('✅ Bitbucket 2FA completed');
   }
 
+  otpRejected(): void {
+    this.warn('🔑 Verification code rejected, retrying with a fresh code');
+  }
+
+  sessionRestored(): void {
+    this.info('🍪 Reusing saved Bitbucket session');
+  }
+
+  sessionExpired(): void {
+    this.info('⌛ Saved Bitbucket session has expired, logging in again');
+  }
+
+  sessionSaved(sessionFile: string): void {
+    this.debug(`Saved browser session to ${sessionFile}`, { sessionFile });
+  }
+
+  sessionCleared(sessionFile: string, existed: boolean): void {
+    const message = existed
+      ? `🚪 Logged out, removed saved session ${sessionFile}`
+      : `🚪 No saved session at ${sessionFile}`;
+    this.info(message, { sessionFile });
+  }
+
   scrapingPage(pageNumber: number): void {
     this.info(`📄 Scraping page ${pageNumber}...`, { pageNumber });
   }
@@ -141,6 +197,14 @@ export class Logger {
     this.info(`🚀 Cloning ${repoName}...`, { repoName, index, total });
   }
 
+  matchedFile(repoName: string, filePath: string, lines: number[], snippet: string): void {
+    const lineInfo = lines.length ? `:${lines.join(',')}` : '';
+    this.info(`   ↳ ${filePath}${lineInfo}`, { repoName, filePath, lines });
+    if (snippet) {
+      this.debug(snippet, { repoName, filePath });
+    }
+  }
+
   cloneSuccess(repoName: string, branch?: string): void {
     const message = branch
       ? `✅ Successfully cloned ${repoName} (branch: ${branch})`
@@ -148,27 +212,100 @@ export class Logger {
     this.info(message, { repoName, branch });
   }
 
-  cloneFallback(repoName: string, requestedBranch: string): void {
-    this.warn(`⚠️ Branch '${requestedBranch}' not found, falling back to default branch`, {
-      repoName,
-      requestedBranch
+  cloneFallback(repoName: string, requestedBranches: string[]): void {
+    const branchList = requestedBranches.map(branch => `'${branch}'`).join(', ');
+    const message = requestedBranches.length > 1
+      ? `⚠️ None of the branches ${branchList} found, falling back to default branch`
+      : `⚠️ Branch ${branchList} not found, falling back to default branch`;
+    this.warn(message, { repoName, requestedBranches });
+  }
+
+  cloneError(repoName: string, error: string, errorClass?: string): void {
+    const classInfo = errorClass ? ` (${errorClass})` : '';
+    this.error(`❌ Failed to clone ${repoName}${classInfo}: ${error}`, { repoName, error, errorClass });
+  }
+
+  retrying(operation: string, error: { errorClass: string; message: string }, attempt: number, retries: number, delay: number): void {
+    this.warn(`🔁 ${operation} failed (${error.errorClass}), retrying in ${delay / 1000}s (${attempt}/${retries})`, {
+      operation, errorClass: error.errorClass, error: error.message, attempt, retries, delay
     });
   }
 
-  cloneError(repoName: string, error: string): void {
-    this.error(`❌ Failed to clone ${repoName}: ${error}`, { repoName, error });
+  resultSkipped(href: string, error: { errorClass: string; message: string }): void {
+    this.warn(`⚠️ Skipping search result ${href} (${error.errorClass}): ${error.message}`, { href, errorClass: error.errorClass, error: error.message });
+  }
+
+  hookStarted(repoName: string, step: string): void {
+    this.info(`🪝 Running "${step}" in ${repoName}`, { repoName, step });
+  }
+
+  hookFailed(repoName: string, step: string, exitCode: number | null, output: string): void {
+    const status = exitCode === null ? 'was stopped' : `exited with ${exitCode}`;
+    this.error(`❌ "${step}" ${status} in ${repoName}`, { repoName, step, exitCode, output });
+  }
+
+  repositoryPublished(repoName: string, branch: string, pullRequestUrl: string | null): void {
+    const message = pullRequestUrl
+      ? `📬 Opened pull request for ${repoName}: ${pullRequestUrl}`
+      : `⬆️ Pushed ${branch} of ${repoName}`;
+    this.info(message, { repoName, branch, pullRequestUrl });
+  }
+
+  publishError(repoName: string, error: string, errorClass?: string): void {
+    const classInfo = errorClass ? ` (${errorClass})` : '';
+    this.error(`❌ Failed to publish ${repoName}${classInfo}: ${error}`, { repoName, error, errorClass });
+  }
+
+  branchCheckedOut(repoName: string, branch: string): void {
+    this.info(`🔀 Checked out ${branch} in ${repoName}`, { repoName, branch });
+  }
+
+  checkoutDirty(repoName: string, branch: string): void {
+    this.warn(`⚠️ ${repoName} has local changes, not switching to ${branch} (use --force to override)`, { repoName, branch });
+  }
+
+  checkoutError(repoName: string, error: string, errorClass?: string): void {
+    const classInfo = errorClass ? ` (${errorClass})` : '';
+    this.error(`❌ Failed to check out in ${repoName}${classInfo}: ${error}`, { repoName, error, errorClass });
+  }
+
+  repositoryIndexed(repoName: string, fileCount: number, commit: string): void {
+    this.info(`📚 Indexed ${repoName}: ${fileCount} file(s) at ${commit.slice(0, 7)}`, { repoName, fileCount, commit });
+  }
+
+  indexError(repoName: string, error: string): void {
+    this.error(`❌ Failed to index ${repoName}: ${error}`, { repoName, error });
   }
 
   repositoryExists(repoName: string): void {
     this.warn(`❌ ${repoName} already exists`, { repoName });
   }
 
+  repositoryConflict(repoName: string, localPath: string, occupiedBy: string): void {
+    this.error(`❌ Cannot clone ${repoName}: ${localPath} is taken by ${occupiedBy}`, { repoName, localPath, occupiedBy });
+  }
+
+  repositoryUpdated(repoName: string, branch?: string): void {
+    const message = branch
+      ? `🔄 Updated ${repoName} (branch: ${branch})`
+      : `🔄 Fetched new changes for ${repoName}`;
+    this.info(message, { repoName, branch });
+  }
+
+  repositoryCurrent(repoName: string): void {
+    this.info(`👌 ${repoName} is already up to date`, { repoName });
+  }
+
+  repositoryDirty(repoName: string): void {
+    this.warn(`⚠️ ${repoName} has local changes, not updating (use --force to override)`, { repoName });
+  }
+
   dryRun(repositories: string[]): void {
     this.info('🔍 DRY RUN - Would clone the following repositories:', { repositories });
   }
 
-  cloningComplete(successCount: number, errorCount: number, clonePath: string): void {
-    this.info('🎉 Cloning complete!', { successCount, errorCount, clonePath });
+  cloningComplete(successCount: number, errorCount: number, clonePaths: string[]): void {
+    this.info('🎉 Cloning complete!', { successCount, errorCount, clonePaths });
   }
 
   noResults(): void {
@@ -0,0 +1,87 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { CloneRecord, CloneStatus } from './output.js';
+import { getRepositoryQuery, SearchQuery } from './queries.js';
+import { getRepositoryDirectory, Layout } from './repository.js';
+import { RepositoryResult } from './search.js';
+
+// Written to the clone directory of every run
+export const MANIFEST_FILE = '.clone-manifest.json';
+
+const MANIFEST_VERSION = 1;
+
+// pending: not processed yet (or the run was interrupted before it finished)
+export type ManifestStatus = 'pending' | CloneStatus;
+
+export interface ManifestEntry {
+  repository: RepositoryResult;
+  status: ManifestStatus;
+  checkedOutBranch: string | null; // Branch used by the clone or update
+  error: string | null;
+  pullRequestUrl?: string | null | undefined; // Set once the changes in the clone were published
+}
+
+export interface RunManifest {
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+  url: string;
+  layout: Layout;
+  queries: SearchQuery[];
+  repositories: ManifestEntry[];
+}
+
+export function createManifest(url: string, layout: Layout, queries: SearchQuery[], repositories: RepositoryResult[]): RunManifest {
+  const now = new Date().toISOString();
+  return {
+    version: MANIFEST_VERSION,
+    createdAt: now,
+    updatedAt: now,
+    url,
+    layout,
+    queries,
+    repositories: repositories.map(repository => ({ repository, status: 'pending', checkedOutBranch: null, error: null }))
+  };
+}
+
+export function readManifest(manifestFile: string): RunManifest {
+  if (!existsSync(manifestFile)) {
+    throw new Error(`Manifest not found: ${manifestFile}`);
+  }
+
+  const manifest = JSON.parse(readFileSync(manifestFile, 'utf8')) as RunManifest;
+  if (manifest.version !== MANIFEST_VERSION || !Array.isArray(manifest.repositories)) {
+    throw new Error(`Unsupported manifest: ${manifestFile}`);
+  }
+  return manifest;
+}
+
+// Writes to a temporary file first so a crash mid-write can't leave a truncated manifest
+export function writeManifest(manifest: RunManifest, manifestFile: string): void {
+  const directory = path.dirname(manifestFile);
+  if (!existsSync(directory)) {
+    mkdirSync(directory, { recursive: true });
+  }
+
+  manifest.updatedAt = new Date().toISOString();
+  const temporaryFile = `${manifestFile}.tmp`;
+  writeFileSync(temporaryFile, `${JSON.stringify(manifest, null, 2)}\n`);
+  renameSync(temporaryFile, manifestFile);
+}
+
+// Pending and failed repositories, or only the failed ones
+export function getRemainingEntries(manifest: RunManifest, failedOnly: boolean): ManifestEntry[] {
+  return manifest.repositories.filter(entry => entry.status === 'failed' || (!failedOnly && entry.status === 'pending'));
+}
+
+export function recordCloneResult(entry: ManifestEntry, record: CloneRecord): void {
+  entry.status = record.status;
+  entry.checkedOutBranch = record.checkedOutBranch;
+  entry.error = record.error;
+}
+
+// Where the entry's repository is (or would be) cloned
+export function getEntryPath(manifest: RunManifest, entry: ManifestEntry): string {
+  const query = getRepositoryQuery(manifest.queries, entry.repository);
+  return path.join(query.clonePath, getRepositoryDirectory(entry.repository, manifest.layout));
+}
@@ -0,0 +1,256 @@
+import { writeFileSync } from 'node:fs';
+import { OperationRecord } from './bulk.js';
+import { HookResult } from './hooks.js';
+import { RepositoryStatus } from './local.js';
+import { PublishRecord } from './publish.js';
+
+export type OutputFormat = 'json' | 'ndjson' | 'csv' | 'table';
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ['json', 'ndjson', 'csv', 'table'];
+
+// One repository from the search results
+export interface RepositoryRecord {
+  repoName: string;
+  workspace: string;
+  project: string | null;
+  cloneUrl: string;
+  branch: string | null; // Requested branch(es) in priority order, comma-separated; null for the default branch
+  existsLocally: boolean;
+  localPath: string;
+  files: string[]; // Matched file paths
+  queries: string[]; // Names of the queries that matched the repository
+}
+
+export type CloneStatus = 'cloned' | 'updated' | 'current' | 'skipped' | 'failed' | 'conflict';
+
+export interface CloneRecord extends RepositoryRecord {
+  status: CloneStatus;
+  checkedOutBranch: string | null; // Branch the local checkout ended up on
+  error: string | null;
+  errorClass: string | null; // e.g. NetworkError or CloneAuthError, for failed repositories
+  hooks: HookResult[]; // Steps of the --exec pipeline run in the repository
+}
+
+// How many repositories of the run one query matched
+export interface QuerySummary {
+  name: string;
+  search: string;
+  repositories: number;
+}
+
+export interface CloneSummary {
+  clonePaths: string[]; // Every clone path of the run's queries
+  cloned: number;
+  updated: number; // Existing clones that were refreshed
+  current: number; // Existing clones that were already up to date
+  skipped: number;
+  failed: number;
+  errors: Record<string, number>; // Failed repositories per error class
+  conflicts: number; // Repositories whose directory is taken by a different repository
+  hooksFailed: number; // Repositories where a --exec step failed
+  queries: QuerySummary[];
+  repositories: CloneRecord[];
+}
+
+export interface PublishSummary {
+  published: number; // Pushed with a pull request
+  pushed: number; // Pushed without a pull request
+  planned: number; // Would be published (dry run)
+  unchanged: number;
+  failed: number;
+  repositories: PublishRecord[];
+}
+
+// checkout or foreach over the clones
+export interface OperationSummary {
+  operation: string;
+  succeeded: number;
+  unchanged: number;
+  skipped: number; // Clones with local changes
+  failed: number;
+  errors: Record<string, number>; // Failed repositories per error class
+  repositories: OperationRecord[];
+}
+
+const REPOSITORY_COLUMNS: Array<keyof RepositoryRecord> = [
+  'repoName', 'workspace', 'project', 'cloneUrl', 'branch', 'existsLocally', 'localPath', 'files', 'queries'
+];
+
+const CLONE_COLUMNS: Array<keyof CloneRecord> = [...REPOSITORY_COLUMNS, 'status', 'checkedOutBranch', 'error', 'errorClass', 'hooks'];
+
+const PUBLISH_COLUMNS: Array<keyof PublishRecord> = [
+  'repoName', 'localPath', 'status', 'branch', 'targetBranch', 'changedFiles', 'commit', 'pullRequestUrl', 'error', 'errorClass'
+];
+
+const STATUS_COLUMNS: Array<keyof RepositoryStatus> = [
+  'repoName', 'localPath', 'branch', 'upstream', 'ahead', 'behind', 'dirty', 'changedFiles',
+  'lastCommit', 'lastCommitDate', 'lastCommitSubject', 'queries', 'error'
+];
+
+const OPERATION_COLUMNS: Array<keyof OperationRecord> = ['repoName', 'localPath', 'status', 'branch', 'hooks', 'error', 'errorClass'];
+
+export function formatRepositories(records: RepositoryRecord[], format: OutputFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(records, null, 2);
+    case 'ndjson':
+      return formatNdjson(records);
+    case 'csv':
+      return formatCsv(records, REPOSITORY_COLUMNS);
+    case 'table':
+      return formatTable(records, ['repoName', 'branch', 'existsLocally', 'cloneUrl', 'queries']);
+  }
+}
+
+export function formatSummary(summary: CloneSummary, format: OutputFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(summary, null, 2);
+    case 'ndjson':
+      return formatNdjson(summary.repositories);
+    case 'csv':
+      return formatCsv(summary.repositories, CLONE_COLUMNS);
+    case 'table': {
+      const totals = `cloned: ${summary.cloned}  updated: ${summary.updated}  current: ${summary.current}  skipped: ${summary.skipped}  failed: ${summary.failed}  conflicts: ${summary.conflicts}  path: ${summary.clonePaths.join(', ')}`;
+      const errors = Object.keys(summary.errors).length
+        ? `\nerrors: ${Object.entries(summary.errors).map(([errorClass, count]) => `${errorClass}: ${count}`).join('  ')}`
+        : '';
+      const hooks = summary.repositories.some(record => record.hooks.length)
+        ? `\nhooks failed: ${summary.hooksFailed}${formatFailedHooks(summary.repositories)}`
+        : '';
+      const queries = summary.queries.length > 1
+        ? `\n${summary.queries.map(query => `${query.name}: ${query.repositories} repository(ies)`).join('\n')}`
+        : '';
+      return `${formatTable(summary.repositories, ['repoName', 'status', 'checkedOutBranch', 'error'])}\n\n${totals}${errors}${hooks}${queries}`;
+    }
+  }
+}
+
+export function summarizePublish(records: PublishRecord[]): PublishSummary {
+  const count = (status: PublishRecord['status']) => records.filter(record => record.status === status).length;
+  return {
+    published: count('published'),
+    pushed: count('pushed'),
+    planned: count('planned'),
+    unchanged: count('unchanged'),
+    failed: count('failed'),
+    repositories: records
+  };
+}
+
+export function formatPublishSummary(summary: PublishSummary, format: OutputFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(summary, null, 2);
+    case 'ndjson':
+      return formatNdjson(summary.repositories);
+    case 'csv':
+      return formatCsv(summary.repositories, PUBLISH_COLUMNS);
+    case 'table': {
+      const totals = `published: ${summary.published}  pushed: ${summary.pushed}  planned: ${summary.planned}  unchanged: ${summary.unchanged}  failed: ${summary.failed}`;
+      return `${formatTable(summary.repositories, ['repoName', 'status', 'branch', 'targetBranch', 'pullRequestUrl', 'error'])}\n\n${totals}`;
+    }
+  }
+}
+
+export function formatStatus(records: RepositoryStatus[], format: OutputFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(records, null, 2);
+    case 'ndjson':
+      return formatNdjson(records);
+    case 'csv':
+      return formatCsv(records, STATUS_COLUMNS);
+    case 'table': {
+      // Only the number of changed files fits the table
+      const rows = records.map(record => ({ ...record, changedFiles: record.changedFiles.length }));
+      return formatTable(rows, ['repoName', 'branch', 'changedFiles', 'ahead', 'behind', 'lastCommit', 'lastCommitDate', 'queries', 'error']);
+    }
+  }
+}
+
+export function summarizeOperation(operation: string, records: OperationRecord[]): OperationSummary {
+  const count = (status: OperationRecord['status']) => records.filter(record => record.status === status).length;
+  const errors = new Map<string, number>();
+  for (const record of records.filter(record => record.status === 'failed')) {
+    const errorClass = record.errorClass || 'UnknownError';
+    errors.set(errorClass, (errors.get(errorClass) || 0) + 1);
+  }
+  return {
+    operation,
+    succeeded: count('succeeded'),
+    unchanged: count('unchanged'),
+    skipped: count('skipped'),
+    failed: count('failed'),
+    // Most frequent first
+    errors: Object.fromEntries([...errors].sort((a, b) => b[1] - a[1])),
+    repositories: records
+  };
+}
+
+export function formatOperationSummary(summary: OperationSummary, format: OutputFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(summary, null, 2);
+    case 'ndjson':
+      return formatNdjson(summary.repositories);
+    case 'csv':
+      return formatCsv(summary.repositories, OPERATION_COLUMNS);
+    case 'table': {
+      const totals = `${summary.operation}  succeeded: ${summary.succeeded}  unchanged: ${summary.unchanged}  skipped: ${summary.skipped}  failed: ${summary.failed}`;
+      const errors = Object.keys(summary.errors).length
+        ? `\nerrors: ${Object.entries(summary.errors).map(([errorClass, count]) => `${errorClass}: ${count}`).join('  ')}`
+        : '';
+      return `${formatTable(summary.repositories, ['repoName', 'status', 'branch', 'error'])}\n\n${totals}${errors}`;
+    }
+  }
+}
+
+// Writes to the output file when given, otherwise to stdout
+export function writeOutput(text: string, outputFile?: string): void {
+  if (outputFile) {
+    writeFileSync(outputFile, `${text}\n`);
+  } else {
+    process.stdout.write(`${text}\n`);
+  }
+}
+
+// "  <repo>: <step> exited with <code>" for each repository with a failed step
+function formatFailedHooks(records: CloneRecord[]): string {
+  return records.map(record => {
+    const failed = record.hooks.find(hook => hook.exitCode !== 0);
+    return failed ? `\n  ${record.repoName}: ${failed.name} ${failed.exitCode === null ? 'was stopped' : `exited with ${failed.exitCode}`}` : '';
+  }).join('');
+}
+
+function formatNdjson(records: object[]): string {
+  return records.map(record => JSON.stringify(record)).join('\n');
+}
+
+function formatCsv<T extends object>(records: T[], columns: Array<keyof T>): string {
+  const rows = records.map(record => columns.map(column => escapeCsv(formatValue(record[column], ';'))).join(','));
+  return [columns.join(','), ...rows].join('\n');
+}
+
+function formatTable<T extends object>(records: T[], columns: Array<keyof T>): string {
+  const header = columns.map(String);
+  const rows = records.map(record => columns.map(column => formatValue(record[column], ', ').replace(/\s*\n\s*/g, ' ')));
+  const widths = header.map((title, index) => Math.max(title.length, ...rows.map(row => row[index]!.length)));
+  const formatRow = (row: string[]) => row.map((cell, index) => cell.padEnd(widths[index]!)).join('  ').trimEnd();
+
+  return [formatRow(header), formatRow(widths.map(width => '-'.repeat(width))), ...rows.map(formatRow)].join('\n');
+}
+
+function formatValue(value: unknown, separator: string): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => typeof item === 'object' ? JSON.stringify(item) : String(item)).join(separator);
+  }
+  return String(value);
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
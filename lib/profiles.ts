@@ -0,0 +1,214 @@
+import { existsSync, readFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { parse } from 'yaml';
+import { parseBranchList } from './clone.js';
+import { CREDENTIAL_PROVIDERS, CredentialProviderName } from './credentials.js';
+import { SearchFilters } from './filters.js';
+import { createHookSteps, HookStep } from './hooks.js';
+import { Flavor, FLAVORS } from './repository.js';
+
+// Looked for in the current directory and its parents, then in ~/.config
+export const CONFIG_FILE_NAMES = ['bitbucket-scraper.config.json', 'bitbucket-scraper.config.yaml', 'bitbucket-scraper.config.yml'];
+
+// Named settings from the config file; the command line and environment variables take precedence
+export interface Profile {
+  name: string;
+  url?: string | undefined;
+  flavor?: Flavor | undefined;
+  credentialsProvider?: CredentialProviderName | undefined;
+  credentialsFile?: string | undefined;
+  clonePath?: string | undefined;
+  branches?: string[] | undefined;
+  concurrency?: number | undefined;
+  filters: SearchFilters;
+  hooks?: HookStep[] | undefined; // Run in each cloned repository
+}
+
+// Keys of a profile mirror the command line options
+const PROFILE_KEYS = [
+  'url', 'flavor', 'credentials-provider', 'credentials-file', 'clone-path', 'branch', 'concurrency',
+  'repo', 'project', 'lang', 'ext', 'path', 'exclude-repo', 'include-archived', 'exec'
+];
+
+type ProfileEntry = Record<string, unknown>;
+
+// The nearest config file upwards from the directory, falling back to ~/.config
+export function findConfigFile(directory: string = process.cwd()): string | undefined {
+  for (let current = path.resolve(directory); ; current = path.dirname(current)) {
+    const file = findIn(current);
+    if (file) {
+      return file;
+    }
+    if (path.dirname(current) === current) {
+      break;
+    }
+  }
+  return findIn(path.join(os.homedir(), '.config'));
+}
+
+// Reads the profile from the config file: the named one, or the file's "default" profile.
+// Returns null when no profile is selected.
+export function loadProfile(configFile: string, name?: string): Profile | null {
+  const document = parseConfigFile(configFile);
+  const profiles = document.profiles;
+  if (profiles !== undefined && !isObject(profiles)) {
+    throw new Error(`Invalid config file ${configFile}: "profiles" must map profile names to settings`);
+  }
+
+  const unknownKeys = Object.keys(document).filter(key => key !== 'default' && key !== 'profiles');
+  if (unknownKeys.length) {
+    throw new Error(`Invalid config file ${configFile}: unknown key(s) ${unknownKeys.join(', ')} (expected "default" and "profiles")`);
+  }
+
+  const profileName = name || (document.default === undefined ? undefined : String(document.default));
+  if (!profileName) {
+    return null;
+  }
+
+  const entry = profiles?.[profileName];
+  if (entry === undefined) {
+    const available = Object.keys(profiles || {});
+    throw new Error(`Profile "${profileName}" not found in ${configFile}${available.length ? ` (available: ${available.join(', ')})` : ''}`);
+  }
+  if (!isObject(entry)) {
+    throw new Error(`Invalid config file ${configFile}: profile "${profileName}" must be a map of settings`);
+  }
+
+  return toProfile(profileName, entry, configFile);
+}
+
+function findIn(directory: string): string | undefined {
+  return CONFIG_FILE_NAMES.map(name => path.join(directory, name)).find(file => existsSync(file));
+}
+
+function parseConfigFile(configFile: string): ProfileEntry {
+  const content = readFileSync(configFile, 'utf8');
+  let document: unknown;
+  try {
+    document = configFile.endsWith('.json') ? JSON.parse(content) : parse(content);
+  } catch (error) {
+    throw new Error(`Invalid config file ${configFile}: ${(error as Error).message}`);
+  }
+
+  if (!isObject(document)) {
+    throw new Error(`Invalid config file ${configFile}: expected a map with "profiles"`);
+  }
+  return document;
+}
+
+function toProfile(name: string, entry: ProfileEntry, configFile: string): Profile {
+  const invalid = (key: string, expected: string) =>
+    new Error(`Invalid config file ${configFile}: profiles.${name}.${key} must be ${expected}`);
+
+  const unknownKeys = Object.keys(entry).filter(key => !PROFILE_KEYS.includes(key));
+  if (unknownKeys.length) {
+    throw new Error(`Invalid config file ${configFile}: unknown key(s) ${unknownKeys.join(', ')} in profile "${name}" (expected ${PROFILE_KEYS.join(', ')})`);
+  }
+
+  const getString = (key: string): string | undefined => {
+    const value = entry[key];
+    if (value !== undefined && typeof value !== 'string') {
+      throw invalid(key, 'a string');
+    }
+    return value;
+  };
+  const getList = (key: string): string[] | undefined => {
+    const value = entry[key];
+    if (value === undefined) {
+      return undefined;
+    }
+    if (typeof value === 'string') {
+      return [value];
+    }
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+      throw invalid(key, 'a string or a list of strings');
+    }
+    return value;
+  };
+  // Relative paths are resolved against the config file's directory
+  const getPath = (key: string): string | undefined => {
+    const value = getString(key);
+    if (value === undefined) {
+      return undefined;
+    }
+    const expanded = value.startsWith('~/') ? path.join(os.homedir(), value.slice(2)) : value;
+    return path.resolve(path.dirname(configFile), expanded);
+  };
+
+  const flavor = getString('flavor');
+  if (flavor !== undefined && !FLAVORS.includes(flavor as Flavor)) {
+    throw invalid('flavor', `one of ${FLAVORS.join(', ')}`);
+  }
+  const credentialsProvider = getString('credentials-provider');
+  if (credentialsProvider !== undefined && !CREDENTIAL_PROVIDERS.includes(credentialsProvider as CredentialProviderName)) {
+    throw invalid('credentials-provider', `one of ${CREDENTIAL_PROVIDERS.join(', ')}`);
+  }
+  const url = getString('url');
+  if (url !== undefined && !URL.canParse(url)) {
+    throw invalid('url', 'a URL, e.g. https://bitbucket.org/myworkspace');
+  }
+  const concurrency = entry.concurrency;
+  if (concurrency !== undefined && (typeof concurrency !== 'number' || !Number.isInteger(concurrency) || concurrency < 1)) {
+    throw invalid('concurrency', 'a positive whole number');
+  }
+  const includeArchived = entry['include-archived'];
+  if (includeArchived !== undefined && typeof includeArchived !== 'boolean') {
+    throw invalid('include-archived', 'true or false');
+  }
+  const branch = getList('branch');
+  const hooks = toHookSteps(entry.exec, invalid);
+
+  return {
+    name,
+    url,
+    flavor: flavor as Flavor | undefined,
+    credentialsProvider: credentialsProvider as CredentialProviderName | undefined,
+    credentialsFile: getPath('credentials-file'),
+    clonePath: getPath('clone-path'),
+    branches: branch?.flatMap(parseBranchList),
+    concurrency,
+    filters: {
+      repos: getList('repo'),
+      projects: getList('project'),
+      languages: getList('lang'),
+      extensions: getList('ext'),
+      paths: getList('path'),
+      excludeRepos: getList('exclude-repo'),
+      includeArchived
+    },
+    hooks
+  };
+}
+
+// exec: a command or a list of commands and { name, run, timeout (seconds) } steps
+function toHookSteps(value: unknown, invalid: (key: string, expected: string) => Error): HookStep[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const entries = Array.isArray(value) ? value : [value];
+  return entries.flatMap((entry, index): HookStep[] => {
+    if (typeof entry === 'string') {
+      return createHookSteps([entry]);
+    }
+    if (!isObject(entry) || typeof entry.run !== 'string') {
+      throw invalid(`exec[${index}]`, 'a command or a map with "run"');
+    }
+    if (entry.name !== undefined && typeof entry.name !== 'string') {
+      throw invalid(`exec[${index}].name`, 'a string');
+    }
+    if (entry.timeout !== undefined && (typeof entry.timeout !== 'number' || entry.timeout < 0)) {
+      throw invalid(`exec[${index}].timeout`, 'a number of seconds');
+    }
+    return [{
+      name: entry.name || entry.run,
+      run: entry.run,
+      timeout: entry.timeout === undefined ? undefined : entry.timeout * 1000
+    }];
+  });
+}
+
+function isObject(value: unknown): value is ProfileEntry {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
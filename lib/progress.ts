@@ -0,0 +1,58 @@
+// A single live status line, redrawn in place on a TTY
+export class ProgressReporter {
+  private total: number;
+  private stream: NodeJS.WriteStream;
+  private done = 0;
+  private failed = 0;
+  private startedAt = Date.now();
+
+  constructor(total: number, stream: NodeJS.WriteStream = process.stdout) {
+    this.total = total;
+    this.stream = stream;
+  }
+
+  static isSupported(stream: NodeJS.WriteStream = process.stdout): boolean {
+    return Boolean(stream.isTTY);
+  }
+
+  // Records a finished item and redraws the line
+  update(succeeded: boolean): void {
+    if (succeeded) {
+      this.done++;
+    } else {
+      this.failed++;
+    }
+    this.render();
+  }
+
+  render(): void {
+    this.clear();
+    this.stream.write(this.format());
+  }
+
+  // Erases the line so other output can be written
+  clear(): void {
+    this.stream.clearLine(0);
+    this.stream.cursorTo(0);
+  }
+
+  finish(): void {
+    this.render();
+    this.stream.write('\n');
+  }
+
+  private format(): string {
+    const finished = this.done + this.failed;
+    const remaining = this.total - finished;
+    const eta = finished > 0 && remaining > 0
+      ? ` ETA ${formatDuration(((Date.now() - this.startedAt) / finished) * remaining)}`
+      : '';
+    return `⏳ [${finished}/${this.total}] ✅ ${this.done} done  ❌ ${this.failed} failed  ${remaining} remaining${eta}`;
+  }
+}
+
+function formatDuration(milliseconds: number): string {
+  const seconds = Math.ceil(milliseconds / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
@@ -0,0 +1,126 @@
+import { createPullRequest } from './api.js';
+import { classifyError } from './errors.js';
+import { git } from './git.js';
+import { LocalClone } from './local.js';
+import { Logger } from './logger.js';
+import { Flavor } from './repository.js';
+import { RetryOptions, withRetry } from './retry.js';
+
+export interface PublishOptions {
+  branch: string; // Branch the changes are committed to
+  message: string; // Commit message template
+  title?: string | undefined; // Pull request title template (defaults to the first line of the commit message)
+  description?: string | undefined; // Pull request description template (defaults to the rest of the commit message)
+  targetBranch?: string | undefined; // Branch the pull request merges into (defaults to the branch the clone is on)
+  pullRequest: boolean; // Open a pull request after pushing
+  dryRun?: boolean | undefined; // Only report which clones have changes
+  url: string; // Bitbucket instance, for the REST API
+  flavor?: Flavor | undefined;
+  timeout?: number | undefined; // Milliseconds allowed per git command
+  signal?: AbortSignal | undefined;
+  retry?: RetryOptions | undefined;
+}
+
+// published: pushed and a pull request was opened
+// pushed: pushed without opening a pull request
+// planned: has changes, but this is a dry run
+export type PublishStatus = 'published' | 'pushed' | 'planned' | 'unchanged' | 'failed';
+
+export interface PublishRecord {
+  repoName: string;
+  localPath: string;
+  status: PublishStatus;
+  branch: string;
+  targetBranch: string | null;
+  changedFiles: string[];
+  commit: string | null;
+  pullRequestUrl: string | null;
+  error: string | null;
+  errorClass: string | null;
+}
+
+// Replaces {repo}, {workspace}, {branch} and {target}; unknown placeholders are kept
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+}
+
+// Commits all changes of the clone to a new branch, pushes it and opens a pull request
+export async function publishRepository(target: LocalClone, options: PublishOptions, logger: Logger): Promise<PublishRecord> {
+  const run = (args: string[]) => git(args, { cwd: target.localPath, timeout: options.timeout, signal: options.signal });
+  const record: PublishRecord = {
+    repoName: target.repoName,
+    localPath: target.localPath,
+    status: 'unchanged',
+    branch: options.branch,
+    targetBranch: null,
+    changedFiles: [],
+    commit: null,
+    pullRequestUrl: null,
+    error: null,
+    errorClass: null
+  };
+
+  try {
+    record.changedFiles = parseChangedFiles(await git(['status', '--porcelain', '-z'], { cwd: target.localPath, timeout: options.timeout, signal: options.signal, raw: true }));
+    if (record.changedFiles.length === 0) {
+      logger.debug(`No changes in ${target.repoName}`, { repoName: target.repoName });
+      return record;
+    }
+
+    record.targetBranch = options.targetBranch || await run(['rev-parse', '--abbrev-ref', 'HEAD']);
+    const values = { repo: target.repoName, workspace: target.workspace, branch: options.branch, target: record.targetBranch };
+    const message = renderTemplate(options.message, values);
+
+    if (options.dryRun) {
+      record.status = 'planned';
+      return record;
+    }
+
+    await run(['checkout', '-B', options.branch]);
+    await run(['add', '--all']);
+    await run(['commit', '--quiet', '--message', message]);
+    record.commit = await run(['rev-parse', 'HEAD']);
+    await withRetry(`Pushing ${target.repoName}`, () => run(['push', '--set-upstream', 'origin', options.branch]), options.retry, logger);
+    record.status = 'pushed';
+
+    if (options.pullRequest) {
+      const repository = { workspace: target.workspace, slug: target.repoName };
+      const [subject = '', ...body] = message.split('\n');
+      const pullRequest = await createPullRequest(repository, options.url, {
+        title: options.title ? renderTemplate(options.title, values) : subject,
+        description: options.description ? renderTemplate(options.description, values) : body.join('\n').trim(),
+        sourceBranch: options.branch,
+        targetBranch: record.targetBranch,
+        flavor: options.flavor,
+        retry: options.retry
+      }, logger);
+      record.pullRequestUrl = pullRequest.url;
+      record.status = 'published';
+    }
+    logger.repositoryPublished(target.repoName, options.branch, record.pullRequestUrl);
+  } catch (error) {
+    const classified = classifyError(error);
+    logger.publishError(target.repoName, classified.message, classified.errorClass);
+    record.status = 'failed';
+    record.error = classified.message;
+    record.errorClass = classified.errorClass;
+  }
+  return record;
+}
+
+// Entries of `status --porcelain -z` are "XY <path>"; renames and copies are followed by the original path
+export function parseChangedFiles(output: string): string[] {
+  const entries = output.split('\0');
+  const files: string[] = [];
+  for (let index = 0; index < entries.length; index++) {
+    const entry = entries[index]!;
+    if (entry.length < 4) {
+      continue;
+    }
+    files.push(entry.slice(3));
+    if (/[RC]/.test(entry.slice(0, 2))) {
+      index++;
+    }
+  }
+  return files;
+}
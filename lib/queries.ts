@@ -0,0 +1,98 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { parse } from 'yaml';
+import { parseBranchList } from './clone.js';
+import { SearchFilters } from './filters.js';
+import { RepositoryResult } from './search.js';
+
+// One search term together with where and how its repositories are cloned
+export interface SearchQuery {
+  name: string; // Label recorded on matched repositories; defaults to the search term
+  search: string;
+  filters: SearchFilters;
+  branches: string[];
+  clonePath: string;
+}
+
+// Settings a query falls back to when the queries file doesn't set them
+export interface QueryDefaults {
+  filters: SearchFilters;
+  branches: string[];
+  clonePath: string;
+}
+
+// An entry of the queries file; keys mirror the command line options
+interface QueryEntry {
+  name?: string;
+  search?: string;
+  repo?: string | string[];
+  project?: string | string[];
+  lang?: string | string[];
+  ext?: string | string[];
+  path?: string | string[];
+  'exclude-repo'?: string | string[];
+  'include-archived'?: boolean;
+  branch?: string | string[];
+  'clone-path'?: string;
+}
+
+export function createQuery(search: string, defaults: QueryDefaults): SearchQuery {
+  return { name: search, search, ...defaults };
+}
+
+// Reads a YAML file holding a list of queries, either at the top level or under "queries".
+// Relative clone paths are resolved against the file's directory.
+export function loadQueries(filePath: string, defaults: QueryDefaults): SearchQuery[] {
+  const document = parse(readFileSync(filePath, 'utf8')) as QueryEntry[] | { queries?: QueryEntry[] } | null;
+  const entries = Array.isArray(document) ? document : document?.queries;
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error(`No queries found in ${filePath}`);
+  }
+
+  return entries.map((entry, index) => {
+    if (!entry?.search) {
+      throw new Error(`Query ${index + 1} in ${filePath} has no search term`);
+    }
+
+    return {
+      name: entry.name || entry.search,
+      search: entry.search,
+      filters: {
+        repos: toList(entry.repo) ?? defaults.filters.repos,
+        projects: toList(entry.project) ?? defaults.filters.projects,
+        languages: toList(entry.lang) ?? defaults.filters.languages,
+        extensions: toList(entry.ext) ?? defaults.filters.extensions,
+        paths: toList(entry.path) ?? defaults.filters.paths,
+        excludeRepos: toList(entry['exclude-repo']) ?? defaults.filters.excludeRepos,
+        includeArchived: entry['include-archived'] ?? defaults.filters.includeArchived
+      },
+      branches: entry.branch === undefined
+        ? defaults.branches
+        : (Array.isArray(entry.branch) ? entry.branch.map(String) : parseBranchList(String(entry.branch))),
+      clonePath: entry['clone-path'] ? path.resolve(path.dirname(filePath), entry['clone-path']) : defaults.clonePath
+    };
+  });
+}
+
+// Query names label results, so they have to be unique
+export function validateQueries(queries: SearchQuery[]): void {
+  const names = new Set<string>();
+  for (const query of queries) {
+    if (names.has(query.name)) {
+      throw new Error(`Duplicate query "${query.name}", give the queries distinct names`);
+    }
+    names.add(query.name);
+  }
+}
+
+// A repository found by several queries is cloned with the settings of the first one
+export function getRepositoryQuery(queries: SearchQuery[], repository: RepositoryResult): SearchQuery {
+  return queries.find(query => query.name === repository.queries[0]) || queries[0]!;
+}
+
+function toList(value: string | string[] | undefined): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return (Array.isArray(value) ? value : [value]).map(String);
+}
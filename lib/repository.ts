@@ -0,0 +1,189 @@
+import path from 'node:path';
+
+export type CloneProtocol = 'https' | 'ssh';
+
+export const CLONE_PROTOCOLS: readonly CloneProtocol[] = ['https', 'ssh'];
+
+// cloud: bitbucket.org, datacenter: self-hosted Bitbucket Data Center / Server
+export type Flavor = 'cloud' | 'datacenter';
+
+export const FLAVORS: readonly Flavor[] = ['cloud', 'datacenter'];
+
+// Data Center's default SSH port
+const DATACENTER_SSH_PORT = 7999;
+
+// First path segments of Data Center's own pages and APIs; anything before them is the context path
+const DATACENTER_ROUTES = ['projects', 'users', 'repos', 'plugins', 'rest', 'scm', 'dashboard', 'login', 'account', 'admin', 'profile', 'search', 'mvc', 's'];
+
+export type Layout = 'flat' | 'workspace' | 'project';
+
+export const LAYOUTS: readonly Layout[] = ['flat', 'workspace', 'project'];
+
+export interface RepositoryRef {
+  workspace: string;
+  slug: string;
+}
+
+export interface CloneUrls {
+  https?: string | undefined;
+  ssh?: string | undefined;
+}
+
+export function detectFlavor(uri: string): Flavor {
+  const { hostname } = new URL(uri);
+  return hostname === 'bitbucket.org' || hostname.endsWith('.bitbucket.org') ? 'cloud' : 'datacenter';
+}
+
+// The root of the instance: the origin on Cloud; on Data Center the origin and its context path,
+// e.g. https://host/bitbucket for https://host/bitbucket/projects/PRJ
+export function getInstanceUrl(uri: string, flavor: Flavor = detectFlavor(uri)): string {
+  const { origin, pathname } = new URL(uri);
+  if (flavor === 'cloud') {
+    return origin;
+  }
+  const segments = pathname.split('/').filter(Boolean);
+  const routeIndex = segments.findIndex(segment => DATACENTER_ROUTES.includes(segment));
+  const contextPath = (routeIndex === -1 ? segments : segments.slice(0, routeIndex)).map(segment => `/${segment}`).join('');
+  return `${origin}${contextPath}`;
+}
+
+// Result hrefs look like /<workspace>/<repo>/src/<commit>/<path> on Cloud and
+// /projects/<project>/repos/<repo>/browse/<path> on Data Center, relative or absolute
+export function parseRepositoryHref(href: string, baseUrl: string): RepositoryRef | null {
+  let url: URL;
+  try {
+    url = new URL(href, baseUrl);
+  } catch {
+    return null;
+  }
+
+  const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  const dataCenterPath = parseDataCenterPath(segments);
+  if (dataCenterPath) {
+    return dataCenterPath.repository;
+  }
+
+  const [workspace, slug] = segments;
+  if (!workspace || !slug) {
+    return null;
+  }
+
+  return { workspace, slug: slug.replace(/\.git$/, '') };
+}
+
+// File hrefs look like /<workspace>/<repo>/src/<commit>/<path> or /projects/<project>/repos/<repo>/browse/<path>
+export function parseFilePathFromHref(href: string, baseUrl: string): string | undefined {
+  let url: URL;
+  try {
+    url = new URL(href, baseUrl);
+  } catch {
+    return undefined;
+  }
+
+  const segments = url.pathname.split('/').filter(Boolean);
+  const dataCenterPath = parseDataCenterPath(segments);
+  if (dataCenterPath) {
+    const rest = segments.slice(dataCenterPath.end);
+    if (rest[0] !== 'browse' || rest.length < 2) {
+      return undefined;
+    }
+    return rest.slice(1).map(decodeURIComponent).join('/');
+  }
+
+  if (segments[2] !== 'src' || segments.length < 5) {
+    return undefined;
+  }
+  return segments.slice(4).map(decodeURIComponent).join('/');
+}
+
+// Finds projects/<project>/repos/<repo> (or users/<user>/repos/<repo> for personal
+// repositories) anywhere in the path, so instances under a context path work too
+function parseDataCenterPath(segments: string[]): { repository: RepositoryRef; end: number } | null {
+  for (let index = 0; index + 3 < segments.length; index++) {
+    const [kind, owner, repos, slug] = segments.slice(index, index + 4);
+    if ((kind === 'projects' || kind === 'users') && repos === 'repos' && owner && slug) {
+      // Personal projects are keyed ~<user>
+      const workspace = kind === 'users' ? `~${owner}` : owner;
+      return { repository: { workspace, slug }, end: index + 4 };
+    }
+  }
+  return null;
+}
+
+// Accepts https://host/<workspace>/<repo>.git, git@host:<workspace>/<repo>.git and
+// Data Center's https://host/scm/<project>/<repo>.git and ssh://git@host:7999/<project>/<repo>.git
+export function parseCloneUrl(cloneUrl: string): RepositoryRef | null {
+  const scpLike = cloneUrl.match(/^[^@/]+@[^:/]+:(?!\d+\/)(.+)$/);
+  let pathname: string;
+  try {
+    pathname = scpLike?.[1] ? scpLike[1] : new URL(cloneUrl).pathname;
+  } catch {
+    return null;
+  }
+
+  // The last two segments are always <workspace or project>/<repo>
+  const [workspace, slug] = pathname.split('/').filter(Boolean).slice(-2).map(decodeURIComponent);
+  if (!workspace || !slug) {
+    return null;
+  }
+  return { workspace, slug: slug.replace(/\.git$/, '') };
+}
+
+// Clone URLs point at the same repository regardless of protocol or user name
+export function isSameRepository(cloneUrl: string, otherCloneUrl: string): boolean {
+  const repository = parseCloneUrl(cloneUrl);
+  const otherRepository = parseCloneUrl(otherCloneUrl);
+  if (!repository || !otherRepository) {
+    return cloneUrl === otherCloneUrl;
+  }
+  return repository.workspace.toLowerCase() === otherRepository.workspace.toLowerCase()
+    && repository.slug.toLowerCase() === otherRepository.slug.toLowerCase();
+}
+
+export function buildCloneUrls(baseUrl: string, repository: RepositoryRef, flavor: Flavor = 'cloud'): CloneUrls {
+  return {
+    https: buildCloneUrl(baseUrl, repository, 'https', flavor),
+    ssh: buildCloneUrl(baseUrl, repository, 'ssh', flavor)
+  };
+}
+
+export function getCloneUrlProtocol(cloneUrl: string): CloneProtocol {
+  return /^(https?):\/\//.test(cloneUrl) ? 'https' : 'ssh';
+}
+
+// Cloud: https://host/<workspace>/<repo>.git and git@host:<workspace>/<repo>.git
+// Data Center: https://host[/<context>]/scm/<project>/<repo>.git and ssh://git@host:7999/<project>/<repo>.git
+export function buildCloneUrl(baseUrl: string, repository: RepositoryRef, protocol: CloneProtocol, flavor: Flavor = 'cloud'): string {
+  const { host, hostname } = new URL(baseUrl);
+
+  if (flavor === 'datacenter') {
+    // Project keys are case-insensitive; Data Center's own clone links use lower case
+    const dataCenterPath = `${repository.workspace.toLowerCase()}/${repository.slug}.git`;
+    if (protocol === 'ssh') {
+      return `ssh://git@${hostname}:${DATACENTER_SSH_PORT}/${dataCenterPath}`;
+    }
+    const contextPath = new URL(getInstanceUrl(baseUrl, 'datacenter')).pathname.replace(/\/$/, '');
+    return `https://${host}${contextPath}/scm/${dataCenterPath}`;
+  }
+
+  const repoPath = `${repository.workspace}/${repository.slug}.git`;
+
+  if (protocol === 'ssh') {
+    return `git@${host}:${repoPath}`;
+  }
+  return `https://${host}/${repoPath}`;
+}
+
+// Directory of the clone relative to the clone path:
+// flat: <repo>, workspace: <workspace>/<repo>, project: <project>/<repo>
+export function getRepositoryDirectory(repository: { workspace: string; project?: string | undefined; repoSlug: string }, layout: Layout): string {
+  switch (layout) {
+    case 'flat':
+      return repository.repoSlug;
+    case 'workspace':
+      return path.join(repository.workspace, repository.repoSlug);
+    case 'project':
+      // Cloud search results don't carry the project, so group by workspace instead
+      return path.join(repository.project || repository.workspace, repository.repoSlug);
+  }
+}
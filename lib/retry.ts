@@ -0,0 +1,36 @@
+import { classifyError, ScraperError } from './errors.js';
+import { Logger } from './logger.js';
+
+export interface RetryOptions {
+  retries?: number | undefined; // Extra attempts after the first one (default 2)
+  delay?: number | undefined; // Milliseconds before the first retry, doubled for each further one (default 1000)
+  maxDelay?: number | undefined; // Upper limit for the delay (default 30s)
+  signal?: AbortSignal | undefined; // Stops retrying once aborted
+}
+
+const DEFAULT_RETRIES = 2;
+const DEFAULT_DELAY = 1000;
+const DEFAULT_MAX_DELAY = 30 * 1000;
+
+// Runs the operation, retrying transient failures with exponential backoff.
+// Failures are rethrown classified, so callers can report them by error class.
+export async function withRetry<T>(operation: string, fn: () => Promise<T>, options: RetryOptions = {}, logger?: Logger): Promise<T> {
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const delay = options.delay ?? DEFAULT_DELAY;
+  const maxDelay = options.maxDelay ?? DEFAULT_MAX_DELAY;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      const classified: ScraperError = classifyError(error);
+      if (!classified.transient || attempt >= retries || options.signal?.aborted) {
+        throw classified;
+      }
+
+      const wait = Math.min(delay * 2 ** attempt, maxDelay);
+      logger?.retrying(operation, classified, attempt + 1, retries, wait);
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+  }
+}
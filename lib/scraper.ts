@@ -1,80 +1,242 @@
-import { chromium, Browser, Page } from 'playwright';
+import { chromium, Browser, BrowserContext, Locator, Page } from 'playwright';
 import { BitbucketAuth, BitbucketConfig, getBitbucketAuth } from './config.js';
+import { AuthError, classifyError, SelectorNotFound } from './errors.js';
 import { Logger } from './logger.js';
+import { getRepositoryCloneUrls } from './api.js';
+import {
+  buildCloneUrl,
+  buildCloneUrls,
+  CloneUrls,
+  detectFlavor,
+  Flavor,
+  getCloneUrlProtocol,
+  getInstanceUrl,
+  parseCloneUrl,
+  parseFilePathFromHref,
+  parseRepositoryHref,
+  RepositoryRef
+} from './repository.js';
+import { RetryOptions, withRetry } from './retry.js';
+import { SearchOptions, SearchResult } from './search.js';
+import { DEFAULT_PAGE_TIMEOUT, PageWaits } from './waits.js';
+import { hasSession, isSessionValid, saveSession } from './session.js';
+
+// A result row as rendered on the search results page
+interface ScrapedResult {
+  href: string;
+  title: string;
+  lines: number[];
+  snippet: string;
+}
 
-
-
-export async function scrape(uri: string, searchTerm: string, logger?: Logger): Promise<string[]> {
+// Markup of the Cloud code search results and repository pages
+const CLOUD_SELECTORS = {
+  resultLink: 'header a',
+  nextButton: 'button[aria-label="Next"]',
+  cloneUrlInput: 'input[aria-label="Copyable input"]'
+};
+
+const CLOUD_NO_RESULTS_TEXT = 'Try searching with a different account or team, or use another search term.';
+
+// Markup of the Data Center code search page (/plugins/servlet/search)
+const DATACENTER_SELECTORS = {
+  result: '.code-search-result',
+  noResults: '.search-no-results',
+  fileLink: 'a[href*="/browse/"]',
+  loadMore: 'button:has-text("Load more")'
+};
+
+// Runs every search in one browser session, so the login only happens once.
+// Returns the results of each search term in order.
+export async function scrape(uri: string, searchTerms: string[], logger?: Logger, options: SearchOptions = {}): Promise<SearchResult[][]> {
   if (logger) {
     logger.debug(`Scraping: ${uri}`);
   } else {
     console.log(`Scraping: ${uri}`);
   }
 
-  const config = await getBitbucketAuth();
+  const flavor = options.flavor || detectFlavor(uri);
+  // From the URL being searched, which already takes --url over BITBUCKET_BASE_URL
+  const baseUrl = getInstanceUrl(uri, flavor);
+
   const browser: Browser = await chromium.launch({ headless: true });
-  const page: Page = await browser.newPage();
+  const sessionFile = options.sessionFile;
+  const context: BrowserContext = await browser.newContext(
+    sessionFile && hasSession(sessionFile) ? { storageState: sessionFile } : {}
+  );
+  // Applies to page loads and to every wait for an element
+  context.setDefaultTimeout(options.timeout ?? DEFAULT_PAGE_TIMEOUT);
+  context.setDefaultNavigationTimeout(options.timeout ?? DEFAULT_PAGE_TIMEOUT);
+  const page: Page = await context.newPage();
+  const waits = new PageWaits(page, options.debugDir, logger);
 
   try {
-    // First, authenticate with Bitbucket
-    await authenticateWithBitbucket(page, config, logger);
-
-    // Now navigate to the target URL
-    await page.goto(uri);
-    await searchForCodeInBitbucket(page, searchTerm, logger);
-    const searchResults = await scrapeForEachResult(page, logger);
-    const searchResultSet = new Set(searchResults);
-
-    const results: string[] = [];
-    for (const href of searchResultSet) {
-      const gitCloneUrl = await getGitCloneUrl(page, href, logger);
-      results.push(gitCloneUrl);
-    }
-    return results;
+    // First, authenticate with Bitbucket unless the saved session is still signed in
+    await ensureAuthenticated(page, context, sessionFile, baseUrl, flavor, logger);
   } catch (error) {
-    if (logger) {
-      logger.error('Error scraping:', { error: (error as Error).message, stack: (error as Error).stack });
-    } else {
-      console.error('Error scraping:', error);
+    // Without a login no search can succeed, so fail like the api backend instead of reporting no results
+    await browser.close();
+    throw classifyError(error);
+  }
+
+  // Clone URLs are resolved once per repository across all searches
+  const cloneUrlCache = new Map<string, { repository: RepositoryRef; cloneUrls: CloneUrls }>();
+  const allResults: SearchResult[][] = [];
+  try {
+    for (const searchTerm of searchTerms) {
+      logger?.search(searchTerm, uri);
+      try {
+        allResults.push(await scrapeSearch(waits, uri, baseUrl, flavor, searchTerm, cloneUrlCache, options, logger));
+      } catch (error) {
+        // One failed search doesn't throw away the others
+        logScrapeError(error, logger);
+        allResults.push([]);
+      }
     }
-    return [];
+    return allResults;
   } finally {
     await browser.close();
   }
 }
 
+async function scrapeSearch(
+  waits: PageWaits,
+  uri: string,
+  baseUrl: string,
+  flavor: Flavor,
+  searchTerm: string,
+  cloneUrlCache: Map<string, { repository: RepositoryRef; cloneUrls: CloneUrls }>,
+  options: SearchOptions,
+  logger?: Logger
+): Promise<SearchResult[]> {
+  let searchResults: ScrapedResult[];
+  if (flavor === 'datacenter') {
+    searchResults = await searchDataCenter(waits, baseUrl, searchTerm, options.retry, logger);
+  } else {
+    // Now navigate to the target URL
+    await gotoPage(waits.page, uri, options.retry, logger);
+    await searchForCodeInBitbucket(waits, searchTerm, logger);
+    searchResults = await scrapeForEachResult(waits, logger);
+  }
 
+  const protocol = options.protocol || 'https';
+  const seenHrefs = new Set<string>();
+  const results: SearchResult[] = [];
+  for (const searchResult of searchResults) {
+    if (seenHrefs.has(searchResult.href)) {
+      continue;
+    }
+    seenHrefs.add(searchResult.href);
+
+    const parsed = parseRepositoryHref(searchResult.href, uri);
+    const cacheKey = parsed ? `${parsed.workspace}/${parsed.slug}` : searchResult.href;
+    let resolved = cloneUrlCache.get(cacheKey);
+    if (!resolved) {
+      try {
+        resolved = await withRetry(
+          `Resolving the clone URL of ${searchResult.href}`,
+          () => resolveCloneUrls(waits, searchResult.href, uri, flavor, options, logger),
+          options.retry,
+          logger
+        );
+      } catch (error) {
+        // Keep the other results when one can't be resolved
+        logger?.resultSkipped(searchResult.href, classifyError(error));
+        continue;
+      }
+      cloneUrlCache.set(cacheKey, resolved);
+    }
 
-export async function getGitCloneUrl(page: Page, href: string, logger?: Logger): Promise<string> {
-  try {
-    await page.goto(href);
-    await waitForResultsToLoad(page);
-  } catch (error) {
-    // Just continue on because bitbucket sucks
+    const { repository, cloneUrls } = resolved;
+    results.push({
+      workspace: repository.workspace,
+      // Data Center results are keyed by project
+      project: flavor === 'datacenter' ? repository.workspace : undefined,
+      repoSlug: repository.slug,
+      filePath: parseFilePathFromHref(searchResult.href, uri) || searchResult.title,
+      lines: searchResult.lines,
+      snippet: searchResult.snippet,
+      cloneUrls,
+      cloneUrl: cloneUrls[protocol] || buildCloneUrl(uri, repository, protocol, flavor)
+    });
+  }
+  return results;
+}
+
+function logScrapeError(error: unknown, logger?: Logger): void {
+  const classified = classifyError(error);
+  if (logger) {
+    logger.error(`Error scraping (${classified.errorClass}):`, { error: classified.message, errorClass: classified.errorClass, stack: classified.stack });
+  } else {
+    console.error(`Error scraping (${classified.errorClass}):`, error);
+  }
+}
+
+// Page loads are retried when they time out or the connection drops
+async function gotoPage(page: Page, url: string, retry: RetryOptions | undefined, logger?: Logger): Promise<void> {
+  await withRetry(`Loading ${url}`, () => page.goto(url), retry, logger);
+}
+
+
+
+// Clone URLs are built from the workspace/slug in the result href; the Clone
+// dialog is only opened for hrefs that don't follow the usual layout
+async function resolveCloneUrls(waits: PageWaits, href: string, baseUrl: string, flavor: Flavor, options: SearchOptions, logger?: Logger): Promise<{ repository: RepositoryRef; cloneUrls: CloneUrls }> {
+  const repository = parseRepositoryHref(href, baseUrl);
+  if (!repository && flavor === 'datacenter') {
+    throw new Error(`Could not parse repository from ${href}`);
+  }
+  if (!repository) {
+    logger?.debug(`Could not parse repository from ${href}, reading clone URL from the page`);
+    const cloneUrl = await getGitCloneUrl(waits, new URL(href, baseUrl).href, options.retry, logger);
+    const cloneRepository = parseCloneUrl(cloneUrl);
+    if (!cloneRepository) {
+      throw new Error(`Could not parse repository from clone URL: ${cloneUrl}`);
+    }
+    return { repository: cloneRepository, cloneUrls: { [getCloneUrlProtocol(cloneUrl)]: cloneUrl } };
+  }
+
+  const cloneUrls = buildCloneUrls(baseUrl, repository, flavor);
+  if (options.resolveCloneLinks) {
+    Object.assign(cloneUrls, await getRepositoryCloneUrls(repository, flavor, baseUrl, options.retry, logger));
   }
-  const cloneButton = await page.getByRole('button', { name: 'Clone' }).first();
+  return { repository, cloneUrls };
+}
+
+export async function getGitCloneUrl(waits: PageWaits, href: string, retry?: RetryOptions, logger?: Logger): Promise<string> {
+  const { page } = waits;
+  await gotoPage(page, href, retry, logger);
+  const cloneButton = page.getByRole('button', { name: 'Clone' }).first();
+  await waits.forElement(cloneButton, 'the Clone button');
   await cloneButton.click();
-  await waitForResultsToLoad(page);
-  const inputLink = await page.locator('input[aria-label="Copyable input"]').first();
+  // The dialog has opened once its URL field is shown
+  const inputLink = page.locator(CLOUD_SELECTORS.cloneUrlInput).first();
+  await waits.forElement(inputLink, 'the clone dialog');
   const inputLinkHref = await inputLink.getAttribute('value');
   if (!inputLinkHref) {
-    throw new Error('Git clone URL not found');
+    throw new SelectorNotFound('Git clone URL not found');
   }
   const repoUrl = inputLinkHref.replace('git clone ', '');
   return repoUrl;
 }
 
-async function scrapeForEachResult(page: Page, logger?: Logger): Promise<string[]> {
-  const results: string[] = [];
+async function scrapeForEachResult(waits: PageWaits, logger?: Logger): Promise<ScrapedResult[]> {
+  const { page } = waits;
+  const results: ScrapedResult[] = [];
 
-  // Wait for search results to load
-  // await page.waitForLoadState('networkidle');
-  // await page.waitForTimeout(30000);
+  // Wait for either the first result or the no results message
+  const firstResult = page.locator(CLOUD_SELECTORS.resultLink).first();
+  const noResultsMessage = page.getByText(CLOUD_NO_RESULTS_TEXT);
+  await waits.forElement(firstResult.or(noResultsMessage), 'the search results');
 
   // Check if there are any search results
-  const noResults = await page.getByText('Try searching with a different account or team, or use another search term.').isVisible();
+  const noResults = await noResultsMessage.isVisible();
   if (noResults) {
-    console.log('No search results found');
+    if (logger) {
+      logger.debug('No search results found');
+    } else {
+      console.log('No search results found');
+    }
     return results;
   }
 
@@ -82,33 +244,47 @@ async function scrapeForEachResult(page: Page, logger?: Logger): Promise<string[
   let currentPage = 1;
 
   while (hasNextPage) {
-    console.log(`Scraping page ${currentPage}...`);
-
-    // Wait for results to load on current page
-
-    // Find all search result containers
-    // Wait for results to load
-
-    await waitForResultsToLoad(page);
+    try {
+      if (logger) {
+        logger.scrapingPage(currentPage);
+      } else {
+        console.log(`Scraping page ${currentPage}...`);
+      }
 
-    const rows = await page.locator('header').all();
-    for (const row of rows) {
-      const headerLink = await row.locator('a').first();
-      const href = await headerLink.getAttribute('href');
-      if (href) {
-        results.push(href.toString().trim());
+      // Find all search result containers
+      const rows = await page.locator('header').all();
+      for (const row of rows) {
+        const headerLink = await row.locator('a').first();
+        const href = await headerLink.getAttribute('href');
+        if (href) {
+          const title = (await headerLink.textContent() || '').trim();
+          const { lines, snippet } = await scrapeMatchedLines(row);
+          results.push({ href: href.toString().trim(), title, lines, snippet });
+        }
       }
-    }
 
 
-    // Check for next page
-    const nextButton = await page.locator('button[aria-label="Next"]').first();
-    const isDisabled = await nextButton.getAttribute('disabled');
-    if (await nextButton.isVisible() && isDisabled === null) {
-      await nextButton.click();
-      await waitForResultsToLoad(page);
-      currentPage++;
-    } else {
+      // Check for next page
+      const nextButton = page.locator(CLOUD_SELECTORS.nextButton).first();
+      const isDisabled = await nextButton.getAttribute('disabled');
+      if (await nextButton.isVisible() && isDisabled === null) {
+        const previousHref = await firstResult.getAttribute('href');
+        await nextButton.click();
+        // The next page has rendered once the first result changed
+        await waits.until(`results page ${currentPage + 1}`, () => page.waitForFunction(
+          `document.querySelector(${JSON.stringify(CLOUD_SELECTORS.resultLink)})?.getAttribute('href') !== ${JSON.stringify(previousHref)}`
+        ));
+        currentPage++;
+      } else {
+        hasNextPage = false;
+      }
+    } catch (error) {
+      // Keep the results of the pages read so far
+      if (results.length === 0) {
+        throw error;
+      }
+      const classified = classifyError(error);
+      logger?.warn(`⚠️ Stopped at results page ${currentPage} (${classified.errorClass}): ${classified.message}`, { currentPage, errorClass: classified.errorClass });
       hasNextPage = false;
     }
   }
@@ -116,57 +292,119 @@ async function scrapeForEachResult(page: Page, logger?: Logger): Promise<string[
   return results;
 }
 
-async function waitForResultsToLoad(page: Page): Promise<void> {
-  try {
-    await page.waitForLoadState('networkidle', { timeout: 2000 });
-  } catch (error) {
-    // Just continue on
+// The matched lines are rendered below each result header as "<line number> <code>" rows
+async function scrapeMatchedLines(header: Locator): Promise<{ lines: number[]; snippet: string }> {
+  const container = header.locator('xpath=..');
+  const headerText = (await header.innerText()).trim();
+  const containerText = await container.innerText();
+  return parseMatchedLines(containerText.replace(headerText, ''));
+}
+
+function parseMatchedLines(text: string): { lines: number[]; snippet: string } {
+  const lines: number[] = [];
+  const snippetLines: string[] = [];
+  for (const textLine of text.split('\n')) {
+    const match = textLine.match(/^\s*(\d+)\s+(.*)$/);
+    if (match?.[1] && match[2] !== undefined) {
+      lines.push(Number(match[1]));
+      snippetLines.push(match[2]);
+    }
   }
-  return;
+
+  return { lines, snippet: snippetLines.join('\n') };
 }
 
-async function searchForCodeInBitbucket(page: Page, searchTerm: string, logger?: Logger): Promise<void> {
+async function searchForCodeInBitbucket(waits: PageWaits, searchTerm: string, logger?: Logger): Promise<void> {
+  const { page } = waits;
   // Find the global search input using the data-test-id from the image
   // const searchInput = await page.locator('[data-test-id="search-dialog-input"]');
-  const searchInput = await page.getByPlaceholder('Search');
+  const searchInput = page.getByPlaceholder('Search');
+  await waits.forElement(searchInput, 'the search box');
   await searchInput.fill(searchTerm);
 
   // Wait for the dropdown to appear (it only shows when there's text in the search box)
-  await page.waitForTimeout(1000); // Give time for dropdown to render
-
-  // Look for the primary search suggestion in the dropdown
-  // This targets "Search for code in" option
-  let searchSuggestion = null;
-  const links = await page.getByRole('link').all();
-  for (const link of links) {
-    const text = await link.textContent();
-    if (text?.includes('Search for code in')) {
-      searchSuggestion = link;
-      break;
-    }
-  }
-  if (!searchSuggestion) {
-    console.log('No search suggestion found');
-    return;
-  }
-
+  // This targets "Search for code in" option, falling back to the first suggestion
+  const searchSuggestion = page.getByRole('link').filter({ hasText: 'Search for code in' }).first();
+  const firstSuggestion = page.locator('[role="option"]').first();
+  await waits.forElement(searchSuggestion.or(firstSuggestion), 'the search suggestions');
 
   if (await searchSuggestion.isVisible()) {
-    console.log('Search suggestion found');
+    logger?.debug('Search suggestion found');
     await searchSuggestion.click();
   } else {
-    // Fallback: if the specific text isn't found, try to click the first search suggestion
-    const firstSuggestion = await page.locator('[role="option"]').first();
-    if (await firstSuggestion.isVisible()) {
-      console.log('First suggestion found');
-      await firstSuggestion.click();
+    logger?.debug('First suggestion found');
+    await firstSuggestion.click();
+  }
+}
+
+
+// Data Center's code search page lists every result on one page, with a "Load more" button
+async function searchDataCenter(waits: PageWaits, baseUrl: string, searchTerm: string, retry: RetryOptions | undefined, logger?: Logger): Promise<ScrapedResult[]> {
+  const { page } = waits;
+  await gotoPage(page, `${baseUrl}/plugins/servlet/search?q=${encodeURIComponent(searchTerm)}`, retry, logger);
+  const resultRows = page.locator(DATACENTER_SELECTORS.result);
+  await waits.forElement(resultRows.or(page.locator(DATACENTER_SELECTORS.noResults)), 'the search results');
+
+  const loadMore = page.locator(DATACENTER_SELECTORS.loadMore).first();
+  let currentPage = 1;
+  logger?.scrapingPage(currentPage);
+  while (await loadMore.isVisible()) {
+    const loadedCount = await resultRows.count();
+    await loadMore.click();
+    // More results have rendered once the list grew
+    await waits.until(`results page ${currentPage + 1}`, () => page.waitForFunction(
+      `document.querySelectorAll(${JSON.stringify(DATACENTER_SELECTORS.result)}).length > ${loadedCount}`
+    ));
+    currentPage++;
+    logger?.scrapingPage(currentPage);
+  }
+
+  const results: ScrapedResult[] = [];
+  for (const row of await page.locator(DATACENTER_SELECTORS.result).all()) {
+    const fileLink = row.locator(DATACENTER_SELECTORS.fileLink).first();
+    const href = await fileLink.getAttribute('href');
+    if (!href) {
+      continue;
     }
+    const title = (await fileLink.innerText()).trim();
+    const { lines, snippet } = parseMatchedLines((await row.innerText()).replace(title, ''));
+    results.push({ href: href.trim(), title, lines, snippet });
   }
+
+  if (results.length === 0) {
+    logger?.debug('No search results found');
+  }
+  return results;
 }
 
+async function ensureAuthenticated(page: Page, context: BrowserContext, sessionFile: string | undefined, baseUrl: string, flavor: Flavor, logger?: Logger): Promise<void> {
+  if (sessionFile && hasSession(sessionFile)) {
+    if (await isSessionValid(page, baseUrl, flavor)) {
+      logger?.sessionRestored();
+      return;
+    }
+    logger?.sessionExpired();
+  }
+
+  const config = await getBitbucketAuth(baseUrl);
+  if (flavor === 'datacenter') {
+    await authenticateWithDataCenter(page, config, logger);
+  } else {
+    await authenticateWithBitbucket(page, config, logger);
+  }
+
+  if (sessionFile) {
+    await saveSession(context, sessionFile);
+    logger?.sessionSaved(sessionFile);
+  }
+}
 
 async function authenticateWithBitbucket(page: Page, config: BitbucketAuth, logger?: Logger): Promise<void> {
-  console.log('Authenticating with Bitbucket...');
+  if (logger) {
+    logger.authentication();
+  } else {
+    console.log('Authenticating with Bitbucket...');
+  }
 
   // Go to Bitbucket login page
   await page.goto(`${config.baseUrl}/account/signin/`);
@@ -178,17 +416,35 @@ async function authenticateWithBitbucket(page: Page, config: BitbucketAuth, logg
   const currentUrl = page.url();
 
   if (currentUrl.includes('id.atlassian.com')) {
-    await handleAtlassianLogin(page, config);
+    await handleAtlassianLogin(page, config, logger);
   }
 }
 
 
-async function handleAtlassianLogin(page: Page, config: BitbucketAuth): Promise<void> {
+// Data Center signs in with its own form; there is no Atlassian account or 2FA step
+async function authenticateWithDataCenter(page: Page, config: BitbucketAuth, logger?: Logger): Promise<void> {
+  logger?.authentication();
+
+  await page.goto(`${config.baseUrl}/login`);
+  await page.waitForLoadState('networkidle');
+
+  await page.locator('#j_username').fill(config.username);
+  await page.locator('#j_password').fill(config.password);
+  await page.locator('#submit').click();
+  await page.waitForLoadState('networkidle');
+
+  if (new URL(page.url()).pathname.endsWith('/login')) {
+    throw new AuthError(`Login to ${config.baseUrl} failed, check the username and password`);
+  }
+  logger?.debug('Logged in to Bitbucket Data Center');
+}
+
+async function handleAtlassianLogin(page: Page, config: BitbucketAuth, logger?: Logger): Promise<void> {
 
   // Wait for the login form to load
   await page.waitForLoadState('networkidle');
 
-  let usernameField = await page.waitForSelector('#username-uid1', { timeout: 5000 });
+  let usernameField = await page.waitForSelector('#username-uid1');
 
   // Fill in username
   await usernameField.fill(config.username);
@@ -214,18 +470,44 @@ async function handleAtlassianLogin(page: Page, config: BitbucketAuth): Promise<
 
   if (currentUrl.includes('id.atlassian.com')) {
     // Handle Atlassian 2FA
-    const otpInput = await page.getByRole('textbox', { name: '6-digit verification code' });
-    await otpInput.fill(config.atlassianOtp);
-
-    const loginBtn2 = await page.getByRole('button', { name: 'Log In' });
-    const otpInput2 = await page.locator('input[name="token"]');
-    await otpInput2.fill(config.bitbucketOtp);
+    await submitOtpCodes(page, config, false);
+
+    // Retry once with codes from the next window when the verification page rejects them
+    if (await isOtpRejected(page)) {
+      logger?.otpRejected();
+      await submitOtpCodes(page, config, true, Date.now());
+      if (await isOtpRejected(page)) {
+        throw new AuthError('Verification code rejected');
+      }
+    }
 
-    const verifyBtn = await page.getByRole('button', { name: 'Verify' });
-    await verifyBtn.click();
-    await page.waitForLoadState('networkidle');
-    console.log('Bitbucket 2FA completed');
+    if (logger) {
+      logger.authenticationComplete();
+    } else {
+      console.log('Bitbucket 2FA completed');
+    }
   }
 }
 
+// Codes are generated right before they are typed so they can't expire while the login is slow
+async function submitOtpCodes(page: Page, config: BitbucketAuth, retry: boolean, rejectedAt?: number): Promise<void> {
+  const otpInput = await page.getByRole('textbox', { name: '6-digit verification code' });
+  // On a retry only the fields still on the page are filled in again
+  if (!retry || await otpInput.isVisible()) {
+    await otpInput.fill(await config.getOtp('atlassian', { retry, rejectedAt }));
+  }
 
+  const otpInput2 = await page.locator('input[name="token"]');
+  if (!retry || await otpInput2.isVisible()) {
+    await otpInput2.fill(await config.getOtp('bitbucket', { retry, rejectedAt }));
+  }
+
+  const verifyBtn = await page.getByRole('button', { name: 'Verify' });
+  await verifyBtn.click();
+  await page.waitForLoadState('networkidle');
+}
+
+// A rejected code leaves us on the verification page
+async function isOtpRejected(page: Page): Promise<boolean> {
+  return page.url().includes('id.atlassian.com') && await page.locator('input[name="token"]').isVisible();
+}
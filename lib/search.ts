@@ -0,0 +1,110 @@
+import { searchApi } from './api.js';
+import { Logger } from './logger.js';
+import { CloneProtocol, CloneUrls, Flavor } from './repository.js';
+import { RetryOptions } from './retry.js';
+import { scrape } from './scraper.js';
+
+export type SearchBackendName = 'api' | 'browser';
+
+export const SEARCH_BACKENDS: readonly SearchBackendName[] = ['browser', 'api'];
+
+export interface SearchOptions {
+  workspace?: string | undefined; // Bitbucket Cloud workspace (API backend only)
+  protocol?: CloneProtocol | undefined; // Clone URL protocol (defaults to https)
+  resolveCloneLinks?: boolean | undefined; // Look up links.clone through the REST API
+  sessionFile?: string | undefined; // Saved browser session to reuse (browser backend only)
+  flavor?: Flavor | undefined; // Cloud or Data Center (detected from the URL by default)
+  retry?: RetryOptions | undefined; // Retries of transient failures (page loads, API requests)
+  timeout?: number | undefined; // Milliseconds to wait for pages and elements, or for each API request
+  debugDir?: string | undefined; // Save a screenshot and the HTML here when a wait fails (browser backend only)
+}
+
+// A single file matching the search term
+export interface SearchResult {
+  workspace: string; // Cloud workspace, or project key on Data Center
+  project?: string | undefined; // Project key, when the backend reports it
+  repoSlug: string;
+  filePath: string;
+  lines: number[]; // Line numbers of the matched lines
+  snippet: string; // Matched lines as shown in the search results
+  cloneUrls: CloneUrls;
+  cloneUrl: string; // Clone URL in the requested protocol
+  archived?: boolean | undefined; // Set when the backend reports the repository as archived
+  query?: string | undefined; // Name of the query that found it
+}
+
+// All search results belonging to one repository
+export interface RepositoryResult {
+  workspace: string;
+  project?: string | undefined;
+  repoSlug: string;
+  cloneUrls: CloneUrls;
+  cloneUrl: string;
+  matches: SearchResult[]; // One per file, from the first query that found it
+  queries: string[]; // Names of the queries that matched the repository
+}
+
+export interface SearchBackend {
+  name: SearchBackendName;
+  // Runs the searches in order and returns the results of each
+  search(uri: string, searchTerms: string[], logger?: Logger, options?: SearchOptions): Promise<SearchResult[][]>;
+}
+
+const browserBackend: SearchBackend = {
+  name: 'browser',
+  search: (uri, searchTerms, logger, options) => scrape(uri, searchTerms, logger, options)
+};
+
+const apiBackend: SearchBackend = {
+  name: 'api',
+  search: async (uri, searchTerms, logger, options) => {
+    const results: SearchResult[][] = [];
+    for (const searchTerm of searchTerms) {
+      logger?.search(searchTerm, uri);
+      results.push(await searchApi(uri, searchTerm, logger, options));
+    }
+    return results;
+  }
+};
+
+export function getSearchBackend(name: SearchBackendName): SearchBackend {
+  switch (name) {
+    case 'api':
+      return apiBackend;
+    case 'browser':
+      return browserBackend;
+    default:
+      throw new Error(`Unknown search backend: ${name}`);
+  }
+}
+
+// Groups file matches by repository, keeping the order repositories were first seen in.
+// A file found by several queries is listed once.
+export function groupByRepository(results: SearchResult[]): RepositoryResult[] {
+  const repositories = new Map<string, RepositoryResult>();
+
+  for (const result of results) {
+    const existing = repositories.get(result.cloneUrl);
+    if (existing) {
+      if (result.query && !existing.queries.includes(result.query)) {
+        existing.queries.push(result.query);
+      }
+      if (!existing.matches.some(match => match.filePath === result.filePath)) {
+        existing.matches.push(result);
+      }
+      continue;
+    }
+
+    repositories.set(result.cloneUrl, {
+      workspace: result.workspace,
+      project: result.project,
+      repoSlug: result.repoSlug,
+      cloneUrls: result.cloneUrls,
+      cloneUrl: result.cloneUrl,
+      matches: [result],
+      queries: result.query ? [result.query] : []
+    });
+  }
+
+  return [...repositories.values()];
+}
@@ -0,0 +1,44 @@
+import { chmodSync, existsSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { BrowserContext, Page } from 'playwright';
+import { Flavor } from './repository.js';
+
+// Answer only for a signed-in user: Cloud's current-user API is 401 without one,
+// Data Center's applinks whoami servlet returns the username, or an empty body
+const CURRENT_USER_PATHS: Record<Flavor, string> = {
+  cloud: '/!api/2.0/user',
+  datacenter: '/plugins/servlet/applinks/whoami'
+};
+
+export function hasSession(sessionFile: string): boolean {
+  return existsSync(sessionFile);
+}
+
+// Saves cookies and local storage so later runs can skip the login.
+// The file holds live session cookies, so it is only readable by the current user.
+export async function saveSession(context: BrowserContext, sessionFile: string): Promise<void> {
+  const directory = path.dirname(sessionFile);
+  if (!existsSync(directory)) {
+    mkdirSync(directory, { recursive: true, mode: 0o700 });
+  }
+
+  const state = await context.storageState();
+  writeFileSync(sessionFile, JSON.stringify(state), { mode: 0o600 });
+  // writeFileSync keeps the mode of an existing file
+  chmodSync(sessionFile, 0o600);
+}
+
+export function clearSession(sessionFile: string): boolean {
+  if (!existsSync(sessionFile)) {
+    return false;
+  }
+  rmSync(sessionFile, { force: true });
+  return true;
+}
+
+// Asks who the saved cookies belong to; a public base URL loads without signing in, so it proves nothing
+export async function isSessionValid(page: Page, baseUrl: string, flavor: Flavor): Promise<boolean> {
+  // The page's request context sends the browser context's cookies
+  const response = await page.request.get(`${baseUrl.replace(/\/+$/, '')}${CURRENT_USER_PATHS[flavor]}`, { failOnStatusCode: false, maxRedirects: 0 });
+  return response.ok() && (await response.text()).trim() !== '';
+}
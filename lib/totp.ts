@@ -0,0 +1,79 @@
+import * as OTPAuth from 'otpauth';
+
+// Codes with less time left than this are skipped in favour of the next window
+export const TOTP_MIN_REMAINING_MS = 5000;
+
+export interface FreshTOTPOptions {
+  minRemainingMs?: number | undefined; // Wait for the next window below this much time left
+  after?: number | undefined; // Wait until the window holding this time is over, e.g. when a code from then was rejected
+}
+
+// Handles both otpauth:// URLs (keeping their digits, period and algorithm) and raw base32 secrets
+export function parseTOTP(secret_input: string): OTPAuth.TOTP {
+  // Check if we got a path instead of a secret
+  if (secret_input.includes('op://')) {
+    throw new Error('Received 1Password path instead of secret value. Check your read.parse() call.');
+  }
+
+  if (secret_input.startsWith('otpauth://')) {
+    const otp = OTPAuth.URI.parse(secret_input.trim());
+    if (!(otp instanceof OTPAuth.TOTP)) {
+      throw new Error('otpauth URL is not a TOTP secret');
+    }
+    return otp;
+  }
+
+  // Clean the secret - remove any whitespace and convert to uppercase
+  const cleanSecret = secret_input.trim().toUpperCase().replace(/\s/g, '');
+
+  if (cleanSecret.length === 0) {
+    throw new Error('Empty or invalid secret provided');
+  }
+
+  return new OTPAuth.TOTP({
+    issuer: "Bitbucket",
+    label: "Bitbucket Account",
+    algorithm: 'SHA1',
+    digits: 6,
+    period: 30,
+    secret: OTPAuth.Secret.fromBase32(cleanSecret),
+  });
+}
+
+export const generateTOTP = (secret_input: string, timestamp: number = Date.now()) => {
+  try {
+    return parseTOTP(secret_input).generate({ timestamp });
+  } catch (error) {
+    console.error('Error generating TOTP:', error);
+    throw new Error('Failed to generate TOTP code from secret');
+  }
+};
+
+// Generates a code meant to be typed right away, waiting for the next window
+// when the current one is about to expire
+export async function generateFreshTOTP(secret_input: string, options: FreshTOTPOptions = {}): Promise<string> {
+  let totp: OTPAuth.TOTP;
+  try {
+    totp = parseTOTP(secret_input);
+  } catch (error) {
+    console.error('Error generating TOTP:', error);
+    throw new Error('Failed to generate TOTP code from secret');
+  }
+
+  const periodMs = totp.period * 1000;
+  if (options.after !== undefined) {
+    // Windows are aligned to multiples of the period; codes generated later in the next window don't wait again
+    const nextWindowAt = (Math.floor(options.after / periodMs) + 1) * periodMs;
+    if (nextWindowAt > Date.now()) {
+      await new Promise(resolve => setTimeout(resolve, nextWindowAt - Date.now() + 100));
+    }
+  }
+
+  const minRemainingMs = Math.min(options.minRemainingMs ?? TOTP_MIN_REMAINING_MS, periodMs / 2);
+  const remaining = totp.remaining();
+  if (remaining < minRemainingMs) {
+    await new Promise(resolve => setTimeout(resolve, remaining + 100));
+  }
+
+  return totp.generate();
+}
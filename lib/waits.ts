@@ -0,0 +1,58 @@
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { Locator, Page } from 'playwright';
+import { SelectorNotFound } from './errors.js';
+import { Logger } from './logger.js';
+
+// Default for page loads and waits, in milliseconds
+export const DEFAULT_PAGE_TIMEOUT = 30 * 1000;
+
+// Waits for concrete page states; when one times out the page is saved for debugging
+export class PageWaits {
+  readonly page: Page;
+  private debugDir: string | undefined;
+  private logger: Logger | undefined;
+
+  constructor(page: Page, debugDir?: string, logger?: Logger) {
+    this.page = page;
+    this.debugDir = debugDir;
+    this.logger = logger;
+  }
+
+  // Waits until the locator (often several combined with .or()) is visible
+  async forElement(locator: Locator, description: string): Promise<void> {
+    await this.until(description, () => locator.first().waitFor({ state: 'visible' }));
+  }
+
+  async until(description: string, wait: () => Promise<unknown>): Promise<void> {
+    try {
+      await wait();
+    } catch (error) {
+      await this.saveDebugArtifacts(description);
+      throw new SelectorNotFound(`Timed out waiting for ${description}`, { cause: error });
+    }
+  }
+
+  // Saves a screenshot and the HTML of the page, when a debug directory is set
+  async saveDebugArtifacts(description: string): Promise<void> {
+    if (!this.debugDir) {
+      return;
+    }
+
+    try {
+      if (!existsSync(this.debugDir)) {
+        mkdirSync(this.debugDir, { recursive: true });
+      }
+      const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${description.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}`;
+      const screenshotFile = path.join(this.debugDir, `${name}.png`);
+      const htmlFile = path.join(this.debugDir, `${name}.html`);
+
+      await this.page.screenshot({ path: screenshotFile, fullPage: true });
+      writeFileSync(htmlFile, await this.page.content());
+      this.logger?.warn(`📸 Saved the page to ${screenshotFile} and ${htmlFile}`, { url: this.page.url(), screenshotFile, htmlFile });
+    } catch (error) {
+      // Debug output must never hide the original failure
+      this.logger?.debug(`Could not save debug artifacts: ${(error as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,261 @@
+import assert from 'node:assert/strict';
+import net from 'node:net';
+import { after, afterEach, before, describe, it } from 'node:test';
+import { createPullRequest, searchApi } from '../lib/api.js';
+import { setCredentialProvider } from '../lib/config.js';
+import { InMemoryCredentialProvider } from '../lib/credentials.js';
+import { setEnv, startServer, TestServer } from './helpers.js';
+
+let restoreEnv: (() => void) | null = null;
+
+// Points the API at the test server, or with null at the URL being searched, signed in with a token
+// unless the credentials are overridden; the user's settings are restored afterwards
+function useApi(server: TestServer | null, credentials: Record<string, string | undefined> = {}): void {
+  restoreEnv?.();
+  restoreEnv = setEnv({
+    BITBUCKET_TOKEN: 'test-token',
+    BITBUCKET_USERNAME: undefined,
+    BITBUCKET_APP_PASSWORD: undefined,
+    BITBUCKET_API_URL: server?.url,
+    ...credentials
+  });
+}
+
+after(() => restoreEnv?.());
+
+function cloudResult(path: string, repository?: string, href?: string) {
+  return {
+    content_matches: [{ lines: [{ line: 3, segments: [{ text: 'var $ = ' }, { text: 'jquery', match: true }] }] }],
+    file: {
+      path,
+      ...(repository ? { commit: { repository: { full_name: repository } } } : {}),
+      ...(href ? { links: { self: { href } } } : {})
+    }
+  };
+}
+
+describe('searchApi on Bitbucket Cloud', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer((request, baseUrl) => {
+      if (request.url.includes('page=2')) {
+        return { body: { values: [cloudResult('lib/jquery.js', undefined, 'https://api.bitbucket.org/2.0/repositories/acme/api/src/abc123/lib/jquery.js')] } };
+      }
+      return {
+        body: {
+          values: [cloudResult('js/jquery.js', 'acme/web'), cloudResult('vendor/jquery.js', 'acme/web')],
+          next: `${baseUrl}/workspaces/acme/search/code?page=2`
+        }
+      };
+    });
+  });
+
+  after(() => server.close());
+
+  afterEach(() => {
+    server.requests.length = 0;
+  });
+
+  it('follows every page and asks for the repository of each result', async () => {
+    useApi(server);
+    const results = await searchApi('https://bitbucket.org/acme', 'jquery');
+
+    assert.equal(server.requests.length, 2);
+    const query = new URL(server.requests[0]!.url, server.url).searchParams;
+    assert.equal(query.get('search_query'), 'jquery');
+    assert.equal(query.get('fields'), '+values.file.commit.repository');
+    assert.equal(server.requests[0]!.headers.authorization, 'Bearer test-token');
+
+    assert.deepEqual(results.map(result => [result.workspace, result.repoSlug, result.filePath]), [
+      ['acme', 'web', 'js/jquery.js'],
+      ['acme', 'web', 'vendor/jquery.js'],
+      // Without a repository the result is placed by its file link
+      ['acme', 'api', 'lib/jquery.js']
+    ]);
+    assert.deepEqual(results[0]!.lines, [3]);
+    assert.equal(results[0]!.snippet, 'var $ = jquery');
+    assert.equal(results[0]!.cloneUrl, 'https://bitbucket.org/acme/web.git');
+  });
+
+  it('uses the requested clone protocol', async () => {
+    useApi(server);
+    const results = await searchApi('https://bitbucket.org/acme', 'jquery', undefined, { protocol: 'ssh' });
+    assert.equal(results[0]!.cloneUrl, 'git@bitbucket.org:acme/web.git');
+  });
+});
+
+describe('searchApi on Bitbucket Data Center', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer(request => {
+      const { entities } = JSON.parse(request.body);
+      const page = entities.code.start === 0
+        ? { isLastPage: false, nextStart: 1, values: [dataCenterResult('app.js', 'web')] }
+        : { isLastPage: true, values: [dataCenterResult('lib/app.js', 'api', true)] };
+      return { body: { code: page } };
+    });
+  });
+
+  after(() => server.close());
+
+  function dataCenterResult(file: string, slug: string, archived = false) {
+    return {
+      file,
+      hitContexts: [[{ line: 1, text: 'import &lt;<em>jquery</em>&gt;' }]],
+      repository: {
+        slug,
+        archived,
+        project: { key: 'PRJ' },
+        links: { clone: [{ name: 'http', href: `https://git.example.com/bitbucket/scm/prj/${slug}.git` }] }
+      }
+    };
+  }
+
+  it('pages through the results of the instance under its context path', async () => {
+    useApi(null);
+    const results = await searchApi(`${server.url}/bitbucket/projects/PRJ`, 'jquery', undefined, { flavor: 'datacenter' });
+
+    assert.deepEqual(server.requests.map(request => `${request.method} ${request.url}`), [
+      'POST /bitbucket/rest/search/latest/search',
+      'POST /bitbucket/rest/search/latest/search'
+    ]);
+    assert.equal(JSON.parse(server.requests[0]!.body).query, 'jquery');
+    assert.deepEqual(results.map(result => [result.workspace, result.repoSlug, result.filePath, result.archived]), [
+      ['PRJ', 'web', 'app.js', false],
+      ['PRJ', 'api', 'lib/app.js', true]
+    ]);
+    assert.equal(results[0]!.snippet, 'import <jquery>');
+    assert.equal(results[0]!.cloneUrl, 'https://git.example.com/bitbucket/scm/prj/web.git');
+  });
+});
+
+describe('createPullRequest', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer((request, baseUrl) => {
+      if (request.url.includes('/rejected/')) {
+        return { status: 401, body: { error: { message: 'Invalid token' } } };
+      }
+      if (request.url.endsWith('/pull-requests')) {
+        return { status: 201, body: { id: 7, links: { self: [{ href: `${baseUrl}/projects/PRJ/repos/web/pull-requests/7` }] } } };
+      }
+      return { status: 201, body: { id: 3, links: { html: { href: 'https://bitbucket.org/acme/web/pull-requests/3' } } } };
+    });
+  });
+
+  after(() => server.close());
+
+  afterEach(() => {
+    server.requests.length = 0;
+  });
+
+  it('opens a pull request on Bitbucket Cloud', async () => {
+    useApi(server);
+    const pullRequest = await createPullRequest({ workspace: 'acme', slug: 'web' }, 'https://bitbucket.org/acme', {
+      title: 'Upgrade jQuery',
+      description: 'Moves to jQuery 3',
+      sourceBranch: 'upgrade-jquery',
+      targetBranch: 'main'
+    });
+
+    assert.deepEqual(pullRequest, { id: 3, url: 'https://bitbucket.org/acme/web/pull-requests/3' });
+    const [request] = server.requests;
+    assert.equal(`${request!.method} ${request!.url}`, 'POST /repositories/acme/web/pullrequests');
+    assert.deepEqual(JSON.parse(request!.body), {
+      title: 'Upgrade jQuery',
+      description: 'Moves to jQuery 3',
+      source: { branch: { name: 'upgrade-jquery' } },
+      destination: { branch: { name: 'main' } }
+    });
+  });
+
+  it('opens a pull request on Bitbucket Data Center', async () => {
+    useApi(null);
+    const pullRequest = await createPullRequest({ workspace: 'PRJ', slug: 'web' }, `${server.url}/bitbucket`, {
+      title: 'Upgrade jQuery',
+      description: '',
+      sourceBranch: 'upgrade-jquery',
+      targetBranch: 'develop',
+      flavor: 'datacenter'
+    });
+
+    assert.deepEqual(pullRequest, { id: 7, url: `${server.url}/projects/PRJ/repos/web/pull-requests/7` });
+    const [request] = server.requests;
+    assert.equal(`${request!.method} ${request!.url}`, 'POST /bitbucket/rest/api/1.0/projects/PRJ/repos/web/pull-requests');
+    const body = JSON.parse(request!.body);
+    assert.deepEqual(body.fromRef, { id: 'refs/heads/upgrade-jquery' });
+    assert.deepEqual(body.toRef, { id: 'refs/heads/develop' });
+  });
+
+  it('fails with an AuthError when the token is rejected, without retrying', async () => {
+    useApi(server);
+    await assert.rejects(createPullRequest({ workspace: 'acme', slug: 'rejected' }, 'https://bitbucket.org/acme', {
+      title: 'Upgrade jQuery',
+      description: '',
+      sourceBranch: 'upgrade-jquery',
+      targetBranch: 'main'
+    }), { name: 'AuthError' });
+    assert.equal(server.requests.length, 1);
+  });
+});
+
+describe('API credentials', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer(() => ({ body: { values: [] } }));
+  });
+
+  after(() => server.close());
+
+  afterEach(() => {
+    setCredentialProvider(null);
+    server.requests.length = 0;
+  });
+
+  it('signs in with an app password', async () => {
+    useApi(server, { BITBUCKET_TOKEN: undefined, BITBUCKET_USERNAME: 'jdoe', BITBUCKET_APP_PASSWORD: 'app-password' });
+    await searchApi('https://bitbucket.org/acme', 'jquery');
+    assert.equal(server.requests[0]!.headers.authorization, `Basic ${Buffer.from('jdoe:app-password').toString('base64')}`);
+  });
+
+  it('falls back to the login of the credential provider', async () => {
+    useApi(server, { BITBUCKET_TOKEN: undefined });
+    setCredentialProvider(new InMemoryCredentialProvider({ username: 'jdoe', password: 'secret' }));
+    await searchApi('https://bitbucket.org/acme', 'jquery');
+    assert.equal(server.requests[0]!.headers.authorization, `Basic ${Buffer.from('jdoe:secret').toString('base64')}`);
+  });
+});
+
+describe('API request timeout', () => {
+  let server: net.Server;
+  let url: string;
+  const sockets: net.Socket[] = [];
+
+  before(async () => {
+    // Accepts connections and never responds
+    server = net.createServer(socket => { sockets.push(socket); });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as net.AddressInfo).port}`;
+  });
+
+  after(() => {
+    sockets.forEach(socket => socket.destroy());
+    server.close();
+  });
+
+  it('fails with a NetworkError when the server does not answer in time', async () => {
+    useApi(null);
+    const startedAt = Date.now();
+    await assert.rejects(searchApi(url, 'jquery', undefined, { flavor: 'datacenter', timeout: 200, retry: { retries: 0 } }), (error: unknown) => {
+      assert.ok(error instanceof Error);
+      assert.equal(error.name, 'NetworkError');
+      assert.equal(error.message, 'Bitbucket API request timed out after 200ms: /rest/search/latest/search');
+      return true;
+    });
+    assert.ok(Date.now() - startedAt < 2000, `settled after ${Date.now() - startedAt}ms`);
+  });
+});
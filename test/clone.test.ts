@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import { writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { cloneRepository, findRemoteBranch, updateRepository } from '../lib/clone.js';
+import { git } from '../lib/git.js';
+import { createRemote, createSilentLogger, createTempDir, pushCommit, removeTempDir, TestRemote } from './helpers.js';
+
+const logger = createSilentLogger();
+
+describe('cloneRepository', () => {
+  let directory: string;
+  let remote: TestRemote;
+
+  before(async () => {
+    directory = createTempDir();
+    remote = await createRemote(directory, 'web', ['develop']);
+  });
+
+  after(() => removeTempDir(directory));
+
+  it('checks out the default branch without requested branches', async () => {
+    const repoPath = path.join(directory, 'default');
+    assert.equal(await cloneRepository(remote.url, 'web', repoPath, {}, logger), 'main');
+    assert.equal(await git(['rev-parse', '--abbrev-ref', 'HEAD'], { cwd: repoPath }), 'main');
+  });
+
+  it('checks out the first requested branch the remote has', async () => {
+    const repoPath = path.join(directory, 'requested');
+    assert.equal(await cloneRepository(remote.url, 'web', repoPath, { branches: ['release', 'develop', 'main'] }, logger), 'develop');
+    assert.equal(await git(['rev-parse', '--abbrev-ref', 'HEAD'], { cwd: repoPath }), 'develop');
+  });
+
+  it('falls back to the default branch when the remote has none of the requested branches', async () => {
+    const repoPath = path.join(directory, 'fallback');
+    assert.equal(await cloneRepository(remote.url, 'web', repoPath, { branches: ['release'] }, logger), 'main');
+  });
+
+  it('fails for a remote that does not exist instead of falling back', async () => {
+    const repoPath = path.join(directory, 'missing');
+    await assert.rejects(cloneRepository(`file://${path.join(directory, 'missing.git')}`, 'missing', repoPath, { branches: ['develop'] }, logger));
+  });
+});
+
+describe('findRemoteBranch', () => {
+  let directory: string;
+  let remote: TestRemote;
+
+  before(async () => {
+    directory = createTempDir();
+    remote = await createRemote(directory, 'web', ['develop']);
+  });
+
+  after(() => removeTempDir(directory));
+
+  it('returns the first of the branches the remote has', async () => {
+    assert.equal(await findRemoteBranch(remote.url, ['release', 'develop', 'main']), 'develop');
+    assert.equal(await findRemoteBranch(remote.url, ['release']), undefined);
+  });
+});
+
+describe('updateRepository', () => {
+  let directory: string;
+  let remote: TestRemote;
+
+  before(async () => {
+    directory = createTempDir();
+    remote = await createRemote(directory, 'web', ['develop']);
+  });
+
+  after(() => removeTempDir(directory));
+
+  it('fast-forwards to new commits with pull, then reports the clone as current', async () => {
+    const repoPath = path.join(directory, 'pull');
+    await cloneRepository(remote.url, 'web', repoPath, {}, logger);
+    const commit = await pushCommit(remote.workPath, 'main', 'pull.txt', 'pull\n');
+
+    assert.deepEqual(await updateRepository(remote.url, 'web', repoPath, { strategy: 'pull' }, logger), { outcome: 'updated', branch: 'main' });
+    assert.equal(await git(['rev-parse', 'HEAD'], { cwd: repoPath }), commit);
+    assert.deepEqual(await updateRepository(remote.url, 'web', repoPath, { strategy: 'pull' }, logger), { outcome: 'current', branch: 'main' });
+  });
+
+  it('switches to the requested branch', async () => {
+    const repoPath = path.join(directory, 'switch');
+    await cloneRepository(remote.url, 'web', repoPath, {}, logger);
+
+    assert.deepEqual(await updateRepository(remote.url, 'web', repoPath, { strategy: 'reset', branches: ['develop'] }, logger), { outcome: 'updated', branch: 'develop' });
+    assert.equal(await git(['rev-parse', '--abbrev-ref', 'HEAD'], { cwd: repoPath }), 'develop');
+  });
+
+  it('leaves a clone with local changes alone unless forced', async () => {
+    const repoPath = path.join(directory, 'dirty');
+    await cloneRepository(remote.url, 'web', repoPath, {}, logger);
+    writeFileSync(path.join(repoPath, 'README.md'), 'local change\n');
+
+    assert.deepEqual(await updateRepository(remote.url, 'web', repoPath, { strategy: 'reset' }, logger), { outcome: 'dirty', branch: 'main' });
+    const forced = await updateRepository(remote.url, 'web', repoPath, { strategy: 'reset', force: true }, logger);
+    assert.equal(forced.branch, 'main');
+    assert.equal(await git(['status', '--porcelain'], { cwd: repoPath }), '');
+  });
+
+  it('fetches a requested branch a shallow clone was not cloned with', async () => {
+    const repoPath = path.join(directory, 'shallow');
+    await cloneRepository(remote.url, 'web', repoPath, { depth: 1 }, logger);
+    // A shallow clone only fetches the branch it was cloned with
+    assert.equal(await git(['config', '--get-all', 'remote.origin.fetch'], { cwd: repoPath }), '+refs/heads/main:refs/remotes/origin/main');
+    const commit = await pushCommit(remote.workPath, 'develop', 'shallow.txt', 'shallow\n');
+
+    assert.deepEqual(await updateRepository(remote.url, 'web', repoPath, { strategy: 'pull', depth: 1, branches: ['develop'] }, logger), { outcome: 'updated', branch: 'develop' });
+    assert.equal(await git(['rev-parse', 'HEAD'], { cwd: repoPath }), commit);
+    assert.equal(await git(['rev-parse', '--abbrev-ref', '@{upstream}'], { cwd: repoPath }), 'origin/develop');
+  });
+
+  it('falls back to the default branch when origin has none of the requested branches', async () => {
+    const repoPath = path.join(directory, 'fallback');
+    await cloneRepository(remote.url, 'web', repoPath, { depth: 1, branches: ['develop'] }, logger);
+
+    assert.deepEqual(await updateRepository(remote.url, 'web', repoPath, { strategy: 'reset', depth: 1, branches: ['release'] }, logger), { outcome: 'updated', branch: 'main' });
+  });
+});
@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { getConfig, setProfile } from '../lib/config.js';
+import { setEnv } from './helpers.js';
+
+let restoreEnv: (() => void) | null = null;
+
+afterEach(() => {
+  restoreEnv?.();
+  restoreEnv = null;
+});
+
+describe('getConfig', () => {
+  it('takes the flavor from BITBUCKET_FLAVOR', () => {
+    restoreEnv = setEnv({ BITBUCKET_FLAVOR: 'datacenter' });
+    assert.equal(getConfig().flavor, 'datacenter');
+  });
+
+  it('rejects an unknown BITBUCKET_FLAVOR', () => {
+    restoreEnv = setEnv({ BITBUCKET_FLAVOR: 'server' });
+    assert.throws(() => getConfig(), { message: 'Invalid BITBUCKET_FLAVOR "server": must be one of cloud, datacenter' });
+  });
+
+  it('takes the credential provider from CREDENTIALS_PROVIDER over the profile', () => {
+    restoreEnv = setEnv({ CREDENTIALS_PROVIDER: 'prompt' });
+    setProfile({ name: 'work', credentialsProvider: '1password', filters: {} });
+    try {
+      assert.equal(getConfig().credentialsProvider, 'prompt');
+    } finally {
+      setProfile(null);
+    }
+  });
+
+  it('rejects an unknown CREDENTIALS_PROVIDER', () => {
+    restoreEnv = setEnv({ CREDENTIALS_PROVIDER: 'keychain' });
+    assert.throws(() => getConfig(), { message: 'Invalid CREDENTIALS_PROVIDER "keychain": must be one of 1password, env, file, prompt' });
+  });
+});
@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { buildSearchQuery, filterResults, SearchFilters } from '../lib/filters.js';
+import { SearchResult } from '../lib/search.js';
+
+function result(repoSlug: string, filePath: string, extra: Partial<SearchResult> = {}): SearchResult {
+  return { workspace: 'acme', repoSlug, filePath, lines: [], snippet: '', cloneUrls: {}, cloneUrl: `https://bitbucket.org/acme/${repoSlug}.git`, ...extra };
+}
+
+// Files of the results the filters keep, as <repo>:<path>
+function kept(results: SearchResult[], filters: SearchFilters): string[] {
+  return filterResults(results, filters).map(item => `${item.repoSlug}:${item.filePath}`);
+}
+
+describe('buildSearchQuery', () => {
+  it('adds modifiers with a single value and leaves filters with several values to filterResults', () => {
+    assert.equal(buildSearchQuery('jquery', { repos: ['web'], extensions: ['.JS'], paths: ['src'] }), 'jquery repo:web ext:js path:src');
+    assert.equal(buildSearchQuery('jquery', { languages: ['javascript', 'typescript'], projects: ['FRONT'] }), 'jquery project:FRONT');
+  });
+});
+
+describe('filterResults', () => {
+  const results = [
+    result('web', 'src/app.js'),
+    result('web', 'lib/src/util.ts'),
+    result('web-legacy', 'vendor/jquery.min.js'),
+    result('api', 'README.md', { project: 'BACK' }),
+    result('old', 'index.js', { archived: true })
+  ];
+
+  it('drops archived repositories unless they are included', () => {
+    assert.ok(!kept(results, {}).includes('old:index.js'));
+    assert.ok(kept(results, { includeArchived: true }).includes('old:index.js'));
+  });
+
+  it('keeps the requested repositories by name or <workspace>/<repo>, and projects where the result has one', () => {
+    assert.deepEqual(kept(results, { repos: ['API', 'acme/web-legacy'] }), ['web-legacy:vendor/jquery.min.js', 'api:README.md']);
+    assert.deepEqual(kept(results, { projects: ['front'] }), ['web:src/app.js', 'web:lib/src/util.ts', 'web-legacy:vendor/jquery.min.js']);
+  });
+
+  it('excludes repositories matching a glob', () => {
+    assert.deepEqual(kept(results, { excludeRepos: ['*-legacy', 'acme/api'] }), ['web:src/app.js', 'web:lib/src/util.ts']);
+  });
+
+  it('keeps files by extension and by the extensions of known languages', () => {
+    assert.deepEqual(kept(results, { extensions: ['.MD'] }), ['api:README.md']);
+    assert.deepEqual(kept(results, { languages: ['typescript', 'markdown'] }), ['web:lib/src/util.ts', 'api:README.md']);
+    // Unknown languages are left to the search backend
+    assert.equal(kept(results, { languages: ['cobol'] }).length, 4);
+  });
+
+  it('matches directories anywhere in the path and globs against the whole path', () => {
+    assert.deepEqual(kept(results, { paths: ['/src/'] }), ['web:src/app.js', 'web:lib/src/util.ts']);
+    // * stays within a path segment, ** crosses them
+    assert.deepEqual(kept(results, { paths: ['*/*.ts'] }), []);
+    assert.deepEqual(kept(results, { paths: ['**/*.ts'] }), ['web:lib/src/util.ts']);
+    assert.deepEqual(kept(results, { paths: ['vendor/jquery.?in.js'] }), ['web-legacy:vendor/jquery.min.js']);
+  });
+});
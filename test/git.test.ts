@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict';
+import net from 'node:net';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { GitError, git, runGit } from '../lib/git.js';
+import { createRemote, createTempDir, removeTempDir, TestRemote } from './helpers.js';
+
+// An alias whose shell and sleep keep git's stdout and stderr open, like git's own helpers do
+const SLOW_COMMAND = ['-c', 'alias.pause=!sleep 5', 'pause'];
+
+// Well below the 5 seconds the children of SLOW_COMMAND would keep the pipes open
+const PROMPTLY = 2000;
+
+describe('runGit', () => {
+  let directory: string;
+  let remote: TestRemote;
+
+  before(async () => {
+    directory = createTempDir();
+    remote = await createRemote(directory, 'repo');
+  });
+
+  after(() => removeTempDir(directory));
+
+  it('resolves with the trimmed output', async () => {
+    const { stdout } = await runGit(['rev-parse', '--abbrev-ref', 'HEAD'], { cwd: remote.workPath });
+    assert.equal(stdout, 'main');
+  });
+
+  it('keeps the output as written with raw', async () => {
+    const output = await git(['status', '--porcelain', '-z', '--untracked-files=all'], { cwd: remote.workPath, raw: true });
+    assert.equal(output, '');
+    const { stdout } = await runGit(['rev-parse', '--abbrev-ref', 'HEAD'], { cwd: remote.workPath, raw: true });
+    assert.equal(stdout, 'main\n');
+  });
+
+  it('rejects with the exit code and stderr of a failed command', async () => {
+    await assert.rejects(runGit(['rev-parse', '--verify', 'missing-branch'], { cwd: remote.workPath }), (error: unknown) => {
+      assert.ok(error instanceof GitError);
+      assert.equal(error.exitCode, 128);
+      assert.match(error.message, /^git rev-parse failed with exit code 128/);
+      assert.equal(error.timedOut, false);
+      return true;
+    });
+  });
+
+  it('kills git after the timeout', async () => {
+    const startedAt = Date.now();
+    await assert.rejects(runGit(SLOW_COMMAND, { cwd: remote.workPath, timeout: 200 }), (error: unknown) => {
+      assert.ok(error instanceof GitError);
+      assert.equal(error.timedOut, true);
+      assert.equal(error.cancelled, false);
+      // The subcommand, not the -c in front of it
+      assert.equal(error.message, 'git pause timed out after 200ms');
+      return true;
+    });
+    assert.ok(Date.now() - startedAt < PROMPTLY, `settled after ${Date.now() - startedAt}ms`);
+  });
+
+  it('stops a clone from a server that never answers', async () => {
+    // Accepts connections and never responds, so git-remote-http waits on the socket
+    const sockets: net.Socket[] = [];
+    const server = net.createServer(socket => { sockets.push(socket); });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as net.AddressInfo;
+
+    const startedAt = Date.now();
+    try {
+      await assert.rejects(runGit(['clone', `http://127.0.0.1:${port}/acme/web.git`, path.join(directory, 'unanswered')], { timeout: 500 }), (error: unknown) => {
+        assert.ok(error instanceof GitError);
+        assert.equal(error.timedOut, true);
+        return true;
+      });
+      assert.ok(Date.now() - startedAt < PROMPTLY, `settled after ${Date.now() - startedAt}ms`);
+    } finally {
+      sockets.forEach(socket => socket.destroy());
+      server.close();
+    }
+  });
+
+  it('kills git when the signal is aborted', async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 200);
+    const startedAt = Date.now();
+    await assert.rejects(runGit(SLOW_COMMAND, { cwd: remote.workPath, signal: controller.signal }), (error: unknown) => {
+      assert.ok(error instanceof GitError);
+      assert.equal(error.cancelled, true);
+      assert.equal(error.timedOut, false);
+      assert.equal(error.message, 'git pause was cancelled');
+      return true;
+    });
+    assert.ok(Date.now() - startedAt < PROMPTLY, `settled after ${Date.now() - startedAt}ms`);
+  });
+
+  it('does not start git with an aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await assert.rejects(runGit(['status'], { cwd: remote.workPath, signal: controller.signal }), (error: unknown) => {
+      assert.ok(error instanceof GitError);
+      assert.equal(error.cancelled, true);
+      assert.equal(error.exitCode, null);
+      return true;
+    });
+  });
+});
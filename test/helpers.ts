@@ -0,0 +1,119 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import winston from 'winston';
+import { git } from '../lib/git.js';
+import { Logger, LogLevel } from '../lib/logger.js';
+
+// Commits made by the tests don't depend on the user's git config
+Object.assign(process.env, {
+  GIT_AUTHOR_NAME: 'Test',
+  GIT_AUTHOR_EMAIL: 'test@example.com',
+  GIT_COMMITTER_NAME: 'Test',
+  GIT_COMMITTER_EMAIL: 'test@example.com'
+});
+
+export function createTempDir(): string {
+  return mkdtempSync(path.join(os.tmpdir(), 'scraper-test-'));
+}
+
+export function removeTempDir(directory: string): void {
+  rmSync(directory, { recursive: true, force: true });
+}
+
+// Discards everything, so test output only shows the test results
+export function createSilentLogger(): Logger {
+  return new Logger({ level: LogLevel.ERROR, logToFile: false, consoleOutput: false }, winston.createLogger({ silent: true }));
+}
+
+// Sets (or, for undefined, unsets) environment variables; returns a function restoring the previous values
+export function setEnv(values: Record<string, string | undefined>): () => void {
+  const previous = Object.fromEntries(Object.keys(values).map(name => [name, process.env[name]]));
+  const apply = (entries: Record<string, string | undefined>) => {
+    for (const [name, value] of Object.entries(entries)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  };
+  apply(values);
+  return () => apply(previous);
+}
+
+// A bare repository and the working copy its commits are pushed from
+export interface TestRemote {
+  url: string; // file:// URL; git ignores --depth for plain paths
+  barePath: string;
+  workPath: string;
+}
+
+// Creates <name>.git with a commit on main and one more commit on each of the other branches
+export async function createRemote(directory: string, name: string, branches: string[] = []): Promise<TestRemote> {
+  const barePath = path.join(directory, `${name}.git`);
+  const workPath = path.join(directory, `${name}-work`);
+  await git(['init', '--quiet', '--bare', '--initial-branch', 'main', barePath]);
+  await git(['init', '--quiet', '--initial-branch', 'main', workPath]);
+  await git(['remote', 'add', 'origin', barePath], { cwd: workPath });
+  await pushCommit(workPath, 'main', 'README.md', `# ${name}\n`);
+
+  for (const branch of branches) {
+    await git(['checkout', '--quiet', '-b', branch, 'main'], { cwd: workPath });
+    await pushCommit(workPath, branch, `${branch}.txt`, `${branch}\n`);
+  }
+  await git(['checkout', '--quiet', 'main'], { cwd: workPath });
+  return { url: `file://${barePath}`, barePath, workPath };
+}
+
+// Commits the file on the branch of the working copy and pushes it; returns the new commit
+export async function pushCommit(workPath: string, branch: string, file: string, content: string): Promise<string> {
+  await git(['checkout', '--quiet', branch], { cwd: workPath }).catch(() => undefined);
+  writeFileSync(path.join(workPath, file), content);
+  await git(['add', '--', file], { cwd: workPath });
+  await git(['commit', '--quiet', '--message', `Update ${file}`], { cwd: workPath });
+  await git(['push', '--quiet', 'origin', branch], { cwd: workPath });
+  return git(['rev-parse', 'HEAD'], { cwd: workPath });
+}
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+export interface TestServer {
+  url: string;
+  requests: RecordedRequest[];
+  close(): Promise<void>;
+}
+
+// A local HTTP server answering every request with the handler's JSON; requests are recorded
+export async function startServer(handler: (request: RecordedRequest, baseUrl: string) => { status?: number; body: unknown }): Promise<TestServer> {
+  const requests: RecordedRequest[] = [];
+  let baseUrl = '';
+  const server = http.createServer(async (req, res) => {
+    let body = '';
+    for await (const chunk of req) {
+      body += chunk;
+    }
+    const request = { method: req.method || 'GET', url: req.url || '/', headers: req.headers, body };
+    requests.push(request);
+
+    const response = handler(request, baseUrl);
+    res.statusCode = response.status ?? 200;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(response.body));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return {
+    url: baseUrl,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()))
+  };
+}
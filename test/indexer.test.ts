@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { searchIndex, SearchIndex, tokenize, updateIndex } from '../lib/indexer.js';
+import { LocalClone } from '../lib/local.js';
+import { createRemote, createSilentLogger, createTempDir, pushCommit, removeTempDir, TestRemote } from './helpers.js';
+
+const logger = createSilentLogger();
+
+describe('tokenize', () => {
+  it('returns unique lower-cased identifiers of two characters or more', () => {
+    assert.deepEqual(tokenize('$.ajaxSetup({ url: URL, a: 1 })'), ['ajaxsetup', 'url']);
+  });
+});
+
+describe('updateIndex and searchIndex', () => {
+  let directory: string;
+  let remote: TestRemote;
+  let clone: LocalClone;
+  let index: SearchIndex;
+
+  before(async () => {
+    directory = createTempDir();
+    remote = await createRemote(directory, 'web');
+    await pushCommit(remote.workPath, 'main', 'app.js', 'import $ from "jquery";\n$.ajaxSetup({ cache: false });\n');
+    await pushCommit(remote.workPath, 'main', 'ajax.js', 'export function ajax(url) {}\n');
+    await pushCommit(remote.workPath, 'main', 'constructor.js', 'class Widget { constructor() {} }\n');
+    clone = { repoName: 'web', workspace: 'acme', cloneUrl: 'https://bitbucket.org/acme/web.git', localPath: remote.workPath };
+    index = (await updateIndex(null, [clone], {}, logger)).index;
+  });
+
+  after(() => removeTempDir(directory));
+
+  it('finds the files with every word of the term, with the matching lines', () => {
+    const results = searchIndex(index, 'jquery ajaxSetup');
+    assert.deepEqual(results.map(result => [result.repoSlug, result.filePath, result.lines, result.snippet]), [
+      ['web', 'app.js', [1, 2], 'import $ from "jquery";\n$.ajaxSetup({ cache: false });']
+    ]);
+    assert.equal(results[0]!.cloneUrl, 'https://bitbucket.org/acme/web.git');
+  });
+
+  it('matches a word that was never indexed on its own as part of longer words', () => {
+    assert.deepEqual(searchIndex(index, 'ajaxset').map(result => result.filePath), ['app.js']);
+    assert.deepEqual(searchIndex(index, 'cache').map(result => result.filePath), ['app.js']);
+  });
+
+  it('matches words that are properties of plain objects', () => {
+    assert.deepEqual(searchIndex(index, 'constructor').map(result => result.filePath), ['constructor.js']);
+    assert.deepEqual(searchIndex(index, 'hasOwnProperty'), []);
+  });
+
+  it('matches file paths and regular expressions', () => {
+    assert.deepEqual(searchIndex(index, 'README').map(result => result.filePath), ['README.md']);
+    assert.deepEqual(searchIndex(index, 'ajax\\(url', { regex: true }).map(result => result.filePath), ['ajax.js']);
+  });
+
+  it('keeps unchanged repositories and indexes them again after commits or local changes', async () => {
+    const unchanged = await updateIndex(index, [clone], {}, logger);
+    assert.deepEqual([unchanged.indexed, unchanged.unchanged], [[], 1]);
+
+    writeFileSync(path.join(remote.workPath, 'app.js'), 'import $ from "zepto";\n');
+    const modified = await updateIndex(unchanged.index, [clone], {}, logger);
+    assert.deepEqual(modified.indexed, ['web']);
+    assert.deepEqual(searchIndex(modified.index, 'zepto').map(result => result.filePath), ['app.js']);
+
+    // Editing a file that was already modified changes the index too
+    writeFileSync(path.join(remote.workPath, 'app.js'), 'import $ from "cash-dom";\n');
+    const edited = await updateIndex(modified.index, [clone], {}, logger);
+    assert.deepEqual(edited.indexed, ['web']);
+    assert.deepEqual(searchIndex(edited.index, 'zepto'), []);
+
+    await pushCommit(remote.workPath, 'main', 'app.js', 'import $ from "jquery";\n');
+    const committed = await updateIndex(edited.index, [clone], {}, logger);
+    assert.deepEqual(committed.indexed, ['web']);
+    index = committed.index;
+  });
+
+  it('drops repositories that are no longer on disk', async () => {
+    const update = await updateIndex(index, [], {}, logger);
+    assert.equal(update.removed, 1);
+    assert.deepEqual(update.index.repositories, []);
+  });
+
+  it('stores absolute paths for clones found through a relative clone path', async () => {
+    const cwd = process.cwd();
+    process.chdir(directory);
+    let relativeIndex: SearchIndex;
+    try {
+      relativeIndex = (await updateIndex(null, [{ ...clone, localPath: 'web-work' }], {}, logger)).index;
+    } finally {
+      process.chdir(cwd);
+    }
+
+    assert.equal(relativeIndex.repositories[0]!.localPath, remote.workPath);
+    assert.deepEqual(searchIndex(relativeIndex, 'jquery').map(result => result.filePath), ['app.js']);
+    // The same clone under its absolute path is the same repository
+    const update = await updateIndex(relativeIndex, [clone], {}, logger);
+    assert.deepEqual([update.unchanged, update.removed], [1, 0]);
+  });
+});
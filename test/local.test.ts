@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import { writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { cloneRepository } from '../lib/clone.js';
+import { git } from '../lib/git.js';
+import { getDirectoryClones, getRepositoryStatus, matchesStatus, parseStatus, RepositoryStatus } from '../lib/local.js';
+import { createRemote, createSilentLogger, createTempDir, pushCommit, removeTempDir, TestRemote } from './helpers.js';
+
+const logger = createSilentLogger();
+
+function status(values: Partial<RepositoryStatus>): RepositoryStatus {
+  return {
+    repoName: 'web',
+    localPath: '/code/web',
+    branch: 'main',
+    upstream: 'origin/main',
+    ahead: 0,
+    behind: 0,
+    dirty: false,
+    changedFiles: [],
+    lastCommit: null,
+    lastCommitDate: null,
+    lastCommitSubject: null,
+    queries: [],
+    error: null,
+    ...values
+  };
+}
+
+describe('parseStatus', () => {
+  it('reads the branch headers and the path of each kind of change', () => {
+    const output = [
+      '# branch.oid 1234567890abcdef1234567890abcdef12345678',
+      '# branch.head feature/login',
+      '# branch.upstream origin/feature/login',
+      '# branch.ab +2 -1',
+      '1 .M N... 100644 100644 100644 abc123 abc123 src/my app.js',
+      '2 R. N... 100644 100644 100644 abc123 abc123 R100 lib/new name.js\tlib/old.js',
+      'u UU N... 100644 100644 100644 100644 abc123 def456 012345 package.json',
+      '? notes.txt'
+    ].join('\n');
+
+    assert.deepEqual(parseStatus(output), {
+      branch: 'feature/login',
+      upstream: 'origin/feature/login',
+      ahead: 2,
+      behind: 1,
+      dirty: true,
+      changedFiles: ['src/my app.js', 'lib/new name.js', 'package.json', 'notes.txt']
+    });
+  });
+
+  it('reports a detached HEAD without an upstream', () => {
+    assert.deepEqual(parseStatus('# branch.oid abc\n# branch.head (detached)\n'), {
+      branch: null, upstream: null, ahead: null, behind: null, dirty: false, changedFiles: []
+    });
+  });
+});
+
+describe('matchesStatus', () => {
+  it('requires every filter to match', () => {
+    const diverged = status({ ahead: 1, behind: 2, dirty: true });
+    assert.ok(matchesStatus(diverged, ['dirty', 'ahead', 'behind', 'diverged']));
+    assert.ok(!matchesStatus(diverged, ['dirty', 'current']));
+    assert.ok(matchesStatus(status({}), ['clean', 'current']));
+    assert.ok(matchesStatus(status({ upstream: null, ahead: null, behind: null }), ['no-upstream']));
+    assert.ok(!matchesStatus(status({ upstream: null, ahead: null, behind: null }), ['current']));
+    assert.ok(matchesStatus(status({ branch: null }), ['detached']));
+  });
+
+  it('only matches repositories that failed to report without filters, but keeps those that failed to fetch', () => {
+    const broken = status({ error: 'not a git repository' });
+    assert.ok(matchesStatus(broken, []));
+    assert.ok(!matchesStatus(broken, ['clean']));
+    assert.ok(matchesStatus(status({ error: 'Fetch failed: Could not resolve host' }), ['clean']));
+  });
+});
+
+describe('getRepositoryStatus', () => {
+  let directory: string;
+  let remote: TestRemote;
+
+  before(async () => {
+    directory = createTempDir();
+    remote = await createRemote(directory, 'web');
+  });
+
+  after(() => removeTempDir(directory));
+
+  it('reports local changes, and commits on both sides after fetching', async () => {
+    const clonePath = path.join(directory, 'clones');
+    const localPath = path.join(clonePath, 'web');
+    await cloneRepository(remote.url, 'web', localPath, {}, logger);
+    writeFileSync(path.join(localPath, 'local.txt'), 'local\n');
+    await git(['add', 'local.txt'], { cwd: localPath });
+    await git(['commit', '--quiet', '--message', 'Local commit'], { cwd: localPath });
+    writeFileSync(path.join(localPath, 'README.md'), 'changed\n');
+    await pushCommit(remote.workPath, 'main', 'remote.txt', 'remote\n');
+
+    const [clone] = await getDirectoryClones(clonePath);
+    assert.deepEqual([clone!.repoName, clone!.localPath], ['web', localPath]);
+
+    const local = await getRepositoryStatus(clone!);
+    assert.deepEqual([local.branch, local.upstream, local.ahead, local.behind, local.changedFiles], ['main', 'origin/main', 1, 0, ['README.md']]);
+    assert.equal(local.lastCommitSubject, 'Local commit');
+
+    const fetched = await getRepositoryStatus(clone!, { fetch: true });
+    assert.deepEqual([fetched.ahead, fetched.behind, fetched.error], [1, 1, null]);
+    assert.ok(matchesStatus(fetched, ['dirty', 'diverged']));
+  });
+});
@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { existsSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { createManifest, getEntryPath, getRemainingEntries, readManifest, recordCloneResult, writeManifest } from '../lib/manifest.js';
+import { CloneRecord } from '../lib/output.js';
+import { createQuery } from '../lib/queries.js';
+import { RepositoryResult } from '../lib/search.js';
+import { createTempDir, removeTempDir } from './helpers.js';
+
+function repository(repoSlug: string, queries: string[], project?: string): RepositoryResult {
+  return { workspace: 'acme', ...(project ? { project } : {}), repoSlug, cloneUrls: {}, cloneUrl: `https://bitbucket.org/acme/${repoSlug}.git`, matches: [], queries };
+}
+
+const queries = [
+  createQuery('jquery', { filters: {}, branches: [], clonePath: '/code/jquery' }),
+  createQuery('lodash', { filters: {}, branches: [], clonePath: '/code/lodash' })
+];
+
+describe('manifest', () => {
+  let directory: string;
+
+  before(() => {
+    directory = createTempDir();
+  });
+
+  after(() => removeTempDir(directory));
+
+  it('starts with every repository pending and survives a round trip', () => {
+    const manifest = createManifest('https://bitbucket.org/acme', 'flat', queries, [repository('web', ['jquery'])]);
+    assert.deepEqual(manifest.repositories.map(entry => [entry.repository.repoSlug, entry.status]), [['web', 'pending']]);
+
+    const manifestFile = path.join(directory, 'run', '.clone-manifest.json');
+    writeManifest(manifest, manifestFile);
+    assert.ok(!existsSync(`${manifestFile}.tmp`));
+    assert.deepEqual(readManifest(manifestFile), manifest);
+  });
+
+  it('rejects missing and unsupported manifests', () => {
+    const missing = path.join(directory, 'missing.json');
+    assert.throws(() => readManifest(missing), { message: `Manifest not found: ${missing}` });
+    const unsupported = path.join(directory, 'unsupported.json');
+    writeFileSync(unsupported, JSON.stringify({ version: 99, repositories: [] }));
+    assert.throws(() => readManifest(unsupported), { message: `Unsupported manifest: ${unsupported}` });
+  });
+
+  it('records clone results and lists the repositories left to retry', () => {
+    const manifest = createManifest('https://bitbucket.org/acme', 'flat', queries, [
+      repository('web', ['jquery']),
+      repository('api', ['jquery']),
+      repository('docs', ['jquery'])
+    ]);
+    const [web, api] = manifest.repositories;
+    const record = (status: CloneRecord['status'], error: string | null = null) =>
+      ({ status, checkedOutBranch: status === 'failed' ? null : 'main', error } as CloneRecord);
+    recordCloneResult(web!, record('cloned'));
+    recordCloneResult(api!, record('failed', 'Authentication failed'));
+
+    assert.deepEqual([web!.status, web!.checkedOutBranch, web!.error], ['cloned', 'main', null]);
+    assert.deepEqual([api!.status, api!.error], ['failed', 'Authentication failed']);
+    assert.deepEqual(getRemainingEntries(manifest, false).map(entry => entry.repository.repoSlug), ['api', 'docs']);
+    assert.deepEqual(getRemainingEntries(manifest, true).map(entry => entry.repository.repoSlug), ['api']);
+  });
+
+  it('places entries under the clone path of the first query that found them, in the layout of the run', () => {
+    const manifest = createManifest('https://bitbucket.org/acme', 'project', queries, [repository('web', ['lodash', 'jquery'], 'FRONT')]);
+    assert.equal(getEntryPath(manifest, manifest.repositories[0]!), path.join('/code/lodash', 'FRONT', 'web'));
+  });
+});
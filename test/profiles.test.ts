@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import { mkdirSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { findConfigFile, loadProfile } from '../lib/profiles.js';
+import { createTempDir, removeTempDir } from './helpers.js';
+
+describe('loadProfile', () => {
+  let directory: string;
+
+  before(() => {
+    directory = createTempDir();
+  });
+
+  after(() => removeTempDir(directory));
+
+  // Writes the config file and returns its path
+  function writeConfig(name: string, content: string): string {
+    const configFile = path.join(directory, name);
+    writeFileSync(configFile, content);
+    return configFile;
+  }
+
+  it('reads the default profile of a YAML file and resolves paths against the file', () => {
+    const configFile = writeConfig('bitbucket-scraper.config.yaml', [
+      'default: work',
+      'profiles:',
+      '  work:',
+      '    url: https://git.example.com/bitbucket',
+      '    flavor: datacenter',
+      '    credentials-provider: file',
+      '    credentials-file: secrets.json',
+      '    clone-path: ./code',
+      '    branch: [develop, "release,main"]',
+      '    concurrency: 4',
+      '    ext: js',
+      '    exec:',
+      '      - npm install',
+      '      - { name: test, run: npm test, timeout: 60 }'
+    ].join('\n'));
+
+    const profile = loadProfile(configFile);
+    assert.ok(profile);
+    assert.equal(profile.name, 'work');
+    assert.equal(profile.url, 'https://git.example.com/bitbucket');
+    assert.equal(profile.flavor, 'datacenter');
+    assert.equal(profile.credentialsProvider, 'file');
+    assert.equal(profile.credentialsFile, path.join(directory, 'secrets.json'));
+    assert.equal(profile.clonePath, path.join(directory, 'code'));
+    assert.deepEqual(profile.branches, ['develop', 'release', 'main']);
+    assert.equal(profile.concurrency, 4);
+    assert.deepEqual(profile.filters.extensions, ['js']);
+    assert.deepEqual(profile.hooks?.map(hook => [hook.name, hook.run, hook.timeout]), [
+      ['npm install', 'npm install', undefined],
+      ['test', 'npm test', 60000]
+    ]);
+  });
+
+  it('reads the named profile of a JSON file, and none without a name or default', () => {
+    const configFile = writeConfig('named.json', JSON.stringify({ profiles: { cloud: { url: 'https://bitbucket.org/acme' } } }));
+    assert.equal(loadProfile(configFile, 'cloud')?.url, 'https://bitbucket.org/acme');
+    assert.equal(loadProfile(configFile), null);
+  });
+
+  it('lists the available profiles when the named one is missing', () => {
+    const configFile = writeConfig('missing.json', JSON.stringify({ profiles: { cloud: {}, work: {} } }));
+    assert.throws(() => loadProfile(configFile, 'home'), { message: `Profile "home" not found in ${configFile} (available: cloud, work)` });
+  });
+
+  it('rejects unknown keys and invalid values', () => {
+    const load = (entry: Record<string, unknown>) =>
+      loadProfile(writeConfig('invalid.json', JSON.stringify({ profiles: { work: entry } })), 'work');
+    const configFile = path.join(directory, 'invalid.json');
+
+    assert.throws(() => load({ clonePath: './code' }), { message: /unknown key\(s\) clonePath in profile "work"/ });
+    assert.throws(() => load({ flavor: 'server' }), { message: `Invalid config file ${configFile}: profiles.work.flavor must be one of cloud, datacenter` });
+    assert.throws(() => load({ 'credentials-provider': 'keychain' }), {
+      message: `Invalid config file ${configFile}: profiles.work.credentials-provider must be one of 1password, env, file, prompt`
+    });
+    assert.throws(() => load({ url: 'bitbucket' }), { message: /profiles\.work\.url must be a URL/ });
+    assert.throws(() => load({ concurrency: 0 }), { message: /profiles\.work\.concurrency must be a positive whole number/ });
+    assert.throws(() => load({ branch: [1] }), { message: /profiles\.work\.branch must be a string or a list of strings/ });
+    assert.throws(() => load({ exec: [{ name: 'test' }] }), { message: /profiles\.work\.exec\[0\] must be a command or a map with "run"/ });
+  });
+
+  it('reports syntax errors with the file name', () => {
+    const configFile = writeConfig('broken.json', '{ "profiles": ');
+    assert.throws(() => loadProfile(configFile), { message: new RegExp(`^Invalid config file ${configFile}: `) });
+  });
+});
+
+describe('findConfigFile', () => {
+  let directory: string;
+
+  before(() => {
+    directory = createTempDir();
+  });
+
+  after(() => removeTempDir(directory));
+
+  it('finds the config file in a parent directory', () => {
+    const configFile = path.join(directory, 'bitbucket-scraper.config.json');
+    writeFileSync(configFile, '{}');
+    const nested = path.join(directory, 'a', 'b');
+    mkdirSync(nested, { recursive: true });
+    assert.equal(findConfigFile(nested), configFile);
+  });
+});
@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict';
+import { writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { cloneRepository } from '../lib/clone.js';
+import { git } from '../lib/git.js';
+import { LocalClone } from '../lib/local.js';
+import { parseChangedFiles, publishRepository, PublishOptions, renderTemplate } from '../lib/publish.js';
+import { createRemote, createSilentLogger, createTempDir, removeTempDir, setEnv, startServer, TestRemote, TestServer } from './helpers.js';
+
+const logger = createSilentLogger();
+
+const options: PublishOptions = {
+  branch: 'upgrade-jquery',
+  message: 'Upgrade jQuery in {repo}\n\nMoves {repo} to jQuery 3',
+  pullRequest: false,
+  url: 'https://bitbucket.org/acme',
+  retry: { retries: 0 }
+};
+
+// A clone of the remote with a modified, an untracked and a renamed file
+async function createChangedClone(directory: string, remote: TestRemote, name: string): Promise<LocalClone> {
+  const localPath = path.join(directory, name);
+  await cloneRepository(remote.url, 'web', localPath, {}, logger);
+  writeFileSync(path.join(localPath, 'README.md'), '# web, upgraded\n');
+  writeFileSync(path.join(localPath, 'new file.txt'), 'new\n');
+  await git(['mv', 'legacy.js', 'modern.js'], { cwd: localPath });
+  return { repoName: 'web', workspace: 'acme', cloneUrl: remote.url, localPath };
+}
+
+describe('publishRepository', () => {
+  let directory: string;
+  let remote: TestRemote;
+
+  before(async () => {
+    directory = createTempDir();
+    remote = await createRemote(directory, 'web');
+    writeFileSync(path.join(remote.workPath, 'legacy.js'), 'legacy\n');
+    await git(['add', 'legacy.js'], { cwd: remote.workPath });
+    await git(['commit', '--quiet', '--message', 'Add legacy.js'], { cwd: remote.workPath });
+    await git(['push', '--quiet', 'origin', 'main'], { cwd: remote.workPath });
+  });
+
+  after(() => removeTempDir(directory));
+
+  it('commits every change to the branch and pushes it', async () => {
+    const clone = await createChangedClone(directory, remote, 'push');
+    const record = await publishRepository(clone, options, logger);
+
+    assert.equal(record.status, 'pushed', record.error ?? undefined);
+    assert.equal(record.targetBranch, 'main');
+    assert.deepEqual([...record.changedFiles].sort(), ['README.md', 'modern.js', 'new file.txt']);
+    assert.equal(await git(['rev-parse', 'refs/heads/upgrade-jquery'], { cwd: remote.barePath }), record.commit);
+    assert.equal(await git(['log', '-1', '--format=%B', 'upgrade-jquery'], { cwd: remote.barePath }), 'Upgrade jQuery in web\n\nMoves web to jQuery 3');
+    assert.equal(await git(['status', '--porcelain'], { cwd: clone.localPath }), '');
+  });
+
+  it('only reports the changes of a dry run', async () => {
+    const clone = await createChangedClone(directory, remote, 'dry-run');
+    const record = await publishRepository(clone, { ...options, branch: 'dry-run', dryRun: true }, logger);
+
+    assert.equal(record.status, 'planned');
+    assert.equal(record.changedFiles.length, 3);
+    assert.equal(await git(['ls-remote', '--heads', remote.url, 'dry-run']), '');
+    assert.equal(await git(['rev-parse', '--abbrev-ref', 'HEAD'], { cwd: clone.localPath }), 'main');
+  });
+
+  it('leaves clones without changes alone', async () => {
+    const localPath = path.join(directory, 'unchanged');
+    await cloneRepository(remote.url, 'web', localPath, {}, logger);
+    const record = await publishRepository({ repoName: 'web', workspace: 'acme', cloneUrl: remote.url, localPath }, options, logger);
+
+    assert.equal(record.status, 'unchanged');
+    assert.deepEqual(record.changedFiles, []);
+  });
+
+  describe('with pull requests', () => {
+    let server: TestServer;
+    let restoreEnv: () => void;
+
+    before(async () => {
+      server = await startServer((_request, baseUrl) => ({
+        status: 201,
+        body: { id: 12, links: { self: [{ href: `${baseUrl}/projects/ACME/repos/web/pull-requests/12` }] } }
+      }));
+      // Without BITBUCKET_API_URL the API is reached through --url
+      restoreEnv = setEnv({ BITBUCKET_TOKEN: 'test-token', BITBUCKET_API_URL: undefined });
+    });
+
+    after(async () => {
+      restoreEnv();
+      await server.close();
+    });
+
+    it('opens a pull request into the branch the clone was on', async () => {
+      const clone = await createChangedClone(directory, remote, 'pull-request');
+      const record = await publishRepository(clone, { ...options, branch: 'with-pull-request', pullRequest: true, url: server.url, flavor: 'datacenter' }, logger);
+
+      assert.equal(record.status, 'published', record.error ?? undefined);
+      assert.equal(record.pullRequestUrl, `${server.url}/projects/ACME/repos/web/pull-requests/12`);
+      const [request] = server.requests;
+      assert.equal(request!.url, '/rest/api/1.0/projects/acme/repos/web/pull-requests');
+      const body = JSON.parse(request!.body);
+      assert.equal(body.title, 'Upgrade jQuery in web');
+      assert.equal(body.description, 'Moves web to jQuery 3');
+      assert.deepEqual(body.toRef, { id: 'refs/heads/main' });
+    });
+  });
+});
+
+describe('parseChangedFiles', () => {
+  it('keeps the first path intact and skips the original path of renames', () => {
+    assert.deepEqual(parseChangedFiles(' M file.txt\0R  moved.txt\0old.txt\0?? new.txt\0'), ['file.txt', 'moved.txt', 'new.txt']);
+    assert.deepEqual(parseChangedFiles(''), []);
+  });
+});
+
+describe('renderTemplate', () => {
+  it('replaces known placeholders and keeps unknown ones', () => {
+    assert.equal(renderTemplate('{repo} to {target} {unknown}', { repo: 'web', target: 'main' }), 'web to main {unknown}');
+  });
+});
@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { createQuery, getRepositoryQuery, loadQueries, QueryDefaults, validateQueries } from '../lib/queries.js';
+import { RepositoryResult } from '../lib/search.js';
+import { createTempDir, removeTempDir } from './helpers.js';
+
+const defaults: QueryDefaults = { filters: { extensions: ['js'] }, branches: ['main'], clonePath: '/tmp/code' };
+
+// Filters as loadQueries returns them for a query that sets none
+function emptyFilters() {
+  return { repos: undefined, projects: undefined, languages: undefined, extensions: undefined, paths: undefined, excludeRepos: undefined, includeArchived: undefined };
+}
+
+describe('loadQueries', () => {
+  let directory: string;
+
+  before(() => {
+    directory = createTempDir();
+  });
+
+  after(() => removeTempDir(directory));
+
+  // Writes the queries file and returns its path
+  function writeQueries(name: string, content: string): string {
+    const filePath = path.join(directory, name);
+    writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  it('reads queries under "queries", falling back to the defaults for unset keys', () => {
+    const filePath = writeQueries('queries.yaml', [
+      'queries:',
+      '  - search: jquery',
+      '  - name: old-lodash',
+      '    search: lodash@3',
+      '    repo: [web, api]',
+      '    include-archived: true',
+      '    branch: develop,main',
+      '    clone-path: ./lodash'
+    ].join('\n'));
+
+    const [jquery, lodash] = loadQueries(filePath, defaults);
+    assert.deepEqual(jquery, { name: 'jquery', search: 'jquery', filters: { ...emptyFilters(), extensions: ['js'] }, branches: ['main'], clonePath: '/tmp/code' });
+    assert.equal(lodash!.name, 'old-lodash');
+    assert.deepEqual(lodash!.filters.repos, ['web', 'api']);
+    assert.deepEqual(lodash!.filters.extensions, ['js']);
+    assert.equal(lodash!.filters.includeArchived, true);
+    assert.deepEqual(lodash!.branches, ['develop', 'main']);
+    assert.equal(lodash!.clonePath, path.join(directory, 'lodash'));
+  });
+
+  it('reads a list of queries at the top level', () => {
+    const filePath = writeQueries('list.yaml', '- search: jquery\n  ext: ts\n');
+    assert.deepEqual(loadQueries(filePath, defaults).map(query => [query.search, query.filters.extensions]), [['jquery', ['ts']]]);
+  });
+
+  it('rejects files without queries and queries without a search term', () => {
+    const empty = writeQueries('empty.yaml', 'queries: []\n');
+    assert.throws(() => loadQueries(empty, defaults), { message: `No queries found in ${empty}` });
+    const missing = writeQueries('missing.yaml', '- search: jquery\n- name: lodash\n');
+    assert.throws(() => loadQueries(missing, defaults), { message: `Query 2 in ${missing} has no search term` });
+  });
+});
+
+describe('validateQueries', () => {
+  it('rejects queries with the same name', () => {
+    assert.doesNotThrow(() => validateQueries([createQuery('jquery', defaults), createQuery('lodash', defaults)]));
+    assert.throws(() => validateQueries([createQuery('jquery', defaults), createQuery('jquery', defaults)]), { message: /Duplicate query "jquery"/ });
+  });
+});
+
+describe('getRepositoryQuery', () => {
+  it('picks the first query that found the repository', () => {
+    const queries = [createQuery('jquery', defaults), createQuery('lodash', defaults)];
+    const repository: RepositoryResult = { workspace: 'acme', repoSlug: 'web', cloneUrls: {}, cloneUrl: '', matches: [], queries: ['lodash', 'jquery'] };
+    assert.equal(getRepositoryQuery(queries, repository).name, 'lodash');
+  });
+});
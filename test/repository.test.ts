@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import {
+  buildCloneUrl,
+  detectFlavor,
+  getInstanceUrl,
+  getRepositoryDirectory,
+  isSameRepository,
+  parseCloneUrl,
+  parseFilePathFromHref,
+  parseRepositoryHref
+} from '../lib/repository.js';
+
+describe('detectFlavor', () => {
+  it('treats bitbucket.org as Cloud and any other host as Data Center', () => {
+    assert.equal(detectFlavor('https://bitbucket.org/acme'), 'cloud');
+    assert.equal(detectFlavor('https://api.bitbucket.org/2.0'), 'cloud');
+    assert.equal(detectFlavor('https://git.example.com/projects/PRJ'), 'datacenter');
+  });
+});
+
+describe('getInstanceUrl', () => {
+  it('returns the origin on Cloud', () => {
+    assert.equal(getInstanceUrl('https://bitbucket.org/acme/web'), 'https://bitbucket.org');
+  });
+
+  it('keeps the context path on Data Center', () => {
+    assert.equal(getInstanceUrl('https://git.example.com/projects/PRJ'), 'https://git.example.com');
+    assert.equal(getInstanceUrl('https://git.example.com/bitbucket/projects/PRJ/repos/web'), 'https://git.example.com/bitbucket');
+    assert.equal(getInstanceUrl('https://git.example.com/tools/bitbucket/'), 'https://git.example.com/tools/bitbucket');
+    assert.equal(getInstanceUrl('http://localhost:7990/bitbucket/rest/api/1.0'), 'http://localhost:7990/bitbucket');
+  });
+});
+
+describe('buildCloneUrl', () => {
+  const repository = { workspace: 'PRJ', slug: 'web' };
+
+  it('builds Cloud clone URLs', () => {
+    assert.equal(buildCloneUrl('https://bitbucket.org/acme', { workspace: 'acme', slug: 'web' }, 'https'), 'https://bitbucket.org/acme/web.git');
+    assert.equal(buildCloneUrl('https://bitbucket.org/acme', { workspace: 'acme', slug: 'web' }, 'ssh'), 'git@bitbucket.org:acme/web.git');
+  });
+
+  it('builds Data Center clone URLs under the context path, with the project key in lower case', () => {
+    assert.equal(buildCloneUrl('https://git.example.com/bitbucket/projects/PRJ', repository, 'https', 'datacenter'), 'https://git.example.com/bitbucket/scm/prj/web.git');
+    assert.equal(buildCloneUrl('https://git.example.com:8443/projects/PRJ', repository, 'https', 'datacenter'), 'https://git.example.com:8443/scm/prj/web.git');
+  });
+
+  it('uses the Data Center SSH port without the context path', () => {
+    assert.equal(buildCloneUrl('https://git.example.com:8443/bitbucket', repository, 'ssh', 'datacenter'), 'ssh://git@git.example.com:7999/prj/web.git');
+  });
+});
+
+describe('parseRepositoryHref', () => {
+  it('reads the workspace and repository of Cloud hrefs', () => {
+    assert.deepEqual(parseRepositoryHref('/acme/web/src/abc123/js/app.js', 'https://bitbucket.org'), { workspace: 'acme', slug: 'web' });
+    assert.deepEqual(parseRepositoryHref('https://bitbucket.org/acme/web.git', 'https://bitbucket.org'), { workspace: 'acme', slug: 'web' });
+    assert.equal(parseRepositoryHref('/acme', 'https://bitbucket.org'), null);
+  });
+
+  it('finds the project and repository of Data Center hrefs under a context path', () => {
+    assert.deepEqual(parseRepositoryHref('/bitbucket/projects/PRJ/repos/web/browse/app.js', 'https://git.example.com'), { workspace: 'PRJ', slug: 'web' });
+    // Personal repositories belong to the ~<user> project
+    assert.deepEqual(parseRepositoryHref('/users/jdoe/repos/dotfiles/browse', 'https://git.example.com'), { workspace: '~jdoe', slug: 'dotfiles' });
+  });
+});
+
+describe('parseFilePathFromHref', () => {
+  it('reads the decoded file path of Cloud and Data Center hrefs', () => {
+    assert.equal(parseFilePathFromHref('/acme/web/src/abc123/js/my%20app.js', 'https://bitbucket.org'), 'js/my app.js');
+    assert.equal(parseFilePathFromHref('/bitbucket/projects/PRJ/repos/web/browse/lib/app.js?at=main', 'https://git.example.com'), 'lib/app.js');
+    assert.equal(parseFilePathFromHref('/acme/web/commits/abc123', 'https://bitbucket.org'), undefined);
+  });
+});
+
+describe('parseCloneUrl', () => {
+  it('reads HTTPS and SSH clone URLs of Cloud and Data Center', () => {
+    assert.deepEqual(parseCloneUrl('https://jdoe@bitbucket.org/acme/web.git'), { workspace: 'acme', slug: 'web' });
+    assert.deepEqual(parseCloneUrl('git@bitbucket.org:acme/web.git'), { workspace: 'acme', slug: 'web' });
+    assert.deepEqual(parseCloneUrl('https://git.example.com/bitbucket/scm/prj/web.git'), { workspace: 'prj', slug: 'web' });
+    assert.deepEqual(parseCloneUrl('ssh://git@git.example.com:7999/prj/web.git'), { workspace: 'prj', slug: 'web' });
+  });
+
+  it('returns null for URLs without a repository', () => {
+    assert.equal(parseCloneUrl('https://bitbucket.org/web.git'), null);
+    assert.equal(parseCloneUrl('not a url'), null);
+  });
+});
+
+describe('isSameRepository', () => {
+  it('ignores the protocol, user name and case', () => {
+    assert.ok(isSameRepository('https://jdoe@bitbucket.org/acme/web.git', 'git@bitbucket.org:Acme/Web.git'));
+    assert.ok(isSameRepository('https://git.example.com/scm/prj/web.git', 'ssh://git@git.example.com:7999/PRJ/web.git'));
+    assert.ok(!isSameRepository('https://bitbucket.org/acme/web.git', 'https://bitbucket.org/other/web.git'));
+  });
+});
+
+describe('getRepositoryDirectory', () => {
+  const repository = { workspace: 'acme', project: 'FRONT', repoSlug: 'web' };
+
+  it('places the clone according to the layout', () => {
+    assert.equal(getRepositoryDirectory(repository, 'flat'), 'web');
+    assert.equal(getRepositoryDirectory(repository, 'workspace'), path.join('acme', 'web'));
+    assert.equal(getRepositoryDirectory(repository, 'project'), path.join('FRONT', 'web'));
+  });
+
+  it('groups by workspace in the project layout when the project is unknown', () => {
+    assert.equal(getRepositoryDirectory({ workspace: 'acme', repoSlug: 'web' }, 'project'), path.join('acme', 'web'));
+  });
+});